@@ -1,6 +1,8 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import 'react-native-gesture-handler';
+import React, { useEffect, useRef } from 'react';
+import { createNavigationContainerRef, NavigationContainer, ParamListBase } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { createStackNavigator } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 
@@ -9,65 +11,154 @@ import HomeScreen from './src/screens/HomeScreen';
 import MapScreen from './src/screens/MapScreen';
 import CameraScreen from './src/screens/CameraScreen';
 import ReportsScreen from './src/screens/ReportsScreen';
+import PrivacyScreen from './src/screens/PrivacyScreen';
+import ReportDetailScreen from './src/screens/ReportDetailScreen';
+import EditReportScreen from './src/screens/EditReportScreen';
+import NotificationSettingsScreen from './src/screens/NotificationSettingsScreen';
+import NearbyFeedScreen from './src/screens/NearbyFeedScreen';
+import ConditionWatchScreen from './src/screens/ConditionWatchScreen';
+import ProjectConditionScreen from './src/screens/ProjectConditionScreen';
+import { startOutbox } from './src/lib/outbox';
+import { loadAdminAreas } from './src/lib/adminAreas';
+import { startReportNotifications } from './src/lib/reportNotifications';
 
 const Tab = createBottomTabNavigator();
+const Stack = createStackNavigator();
+const navigationRef = createNavigationContainerRef<ParamListBase>();
 
-export default function App() {
+function MainTabs() {
   return (
-    <NavigationContainer>
-      <StatusBar style="light" />
-      <Tab.Navigator
-        screenOptions={({ route }) => ({
-          tabBarIcon: ({ focused, color, size }) => {
-            let iconName: keyof typeof Ionicons.glyphMap;
+    <Tab.Navigator
+      screenOptions={({ route }) => ({
+        tabBarIcon: ({ focused, color, size }) => {
+          let iconName: keyof typeof Ionicons.glyphMap;
+
+          if (route.name === 'Home') {
+            iconName = focused ? 'home' : 'home-outline';
+          } else if (route.name === 'Map') {
+            iconName = focused ? 'map' : 'map-outline';
+          } else if (route.name === 'Camera') {
+            iconName = focused ? 'camera' : 'camera-outline';
+          } else if (route.name === 'Reports') {
+            iconName = focused ? 'list' : 'list-outline';
+          } else {
+            iconName = 'help-outline';
+          }
+
+          return <Ionicons name={iconName} size={size} color={color} />;
+        },
+        tabBarActiveTintColor: '#3498db',
+        tabBarInactiveTintColor: '#7f8c8d',
+        tabBarStyle: {
+          backgroundColor: '#fff',
+          borderTopColor: '#e1e8ed',
+          paddingBottom: 5,
+          paddingTop: 5,
+          height: 60,
+        },
+        headerShown: false,
+      })}
+    >
+      <Tab.Screen 
+        name="Home" 
+        component={HomeScreen}
+        options={{ title: 'Home' }}
+      />
+      <Tab.Screen 
+        name="Map" 
+        component={MapScreen}
+        options={{ title: 'Map' }}
+      />
+      <Tab.Screen 
+        name="Camera" 
+        component={CameraScreen}
+        options={{ title: 'Report' }}
+      />
+      <Tab.Screen 
+        name="Reports" 
+        component={ReportsScreen}
+        options={{ title: 'My Reports' }}
+      />
+    </Tab.Navigator>
+  );
+}
+
+export default function App() {
+  // Keep retrying reports saved offline for as long as the app is running
+  useEffect(() => startOutbox(), []);
+
+  // Parse the bundled boundary index up front so the first address lookup is quick
+  useEffect(() => {
+    loadAdminAreas();
+  }, []);
 
-            if (route.name === 'Home') {
-              iconName = focused ? 'home' : 'home-outline';
-            } else if (route.name === 'Map') {
-              iconName = focused ? 'map' : 'map-outline';
-            } else if (route.name === 'Camera') {
-              iconName = focused ? 'camera' : 'camera-outline';
-            } else if (route.name === 'Reports') {
-              iconName = focused ? 'list' : 'list-outline';
-            } else {
-              iconName = 'help-outline';
-            }
+  // A notification tapped before navigation is ready (e.g. the one that
+  // launched the app) is opened once it is
+  const pendingReportId = useRef<string | null>(null);
 
-            return <Ionicons name={iconName} size={size} color={color} />;
-          },
-          tabBarActiveTintColor: '#3498db',
-          tabBarInactiveTintColor: '#7f8c8d',
-          tabBarStyle: {
-            backgroundColor: '#fff',
-            borderTopColor: '#e1e8ed',
-            paddingBottom: 5,
-            paddingTop: 5,
-            height: 60,
-          },
-          headerShown: false,
-        })}
-      >
-        <Tab.Screen 
-          name="Home" 
-          component={HomeScreen}
-          options={{ title: 'Home' }}
+  const openReport = (reportId: string) => {
+    if (navigationRef.isReady()) {
+      navigationRef.navigate('ReportDetail', { reportId });
+    } else {
+      pendingReportId.current = reportId;
+    }
+  };
+
+  useEffect(() => startReportNotifications(openReport), []);
+
+  return (
+    <NavigationContainer
+      ref={navigationRef}
+      onReady={() => {
+        if (pendingReportId.current) {
+          openReport(pendingReportId.current);
+          pendingReportId.current = null;
+        }
+      }}
+    >
+      <StatusBar style="light" />
+      <Stack.Navigator>
+        <Stack.Screen
+          name="Tabs"
+          component={MainTabs}
+          options={{ headerShown: false }}
         />
-        <Tab.Screen 
-          name="Map" 
-          component={MapScreen}
-          options={{ title: 'Map' }}
+        <Stack.Screen
+          name="Privacy"
+          component={PrivacyScreen}
+          options={{ title: 'Privacy' }}
         />
-        <Tab.Screen 
-          name="Camera" 
-          component={CameraScreen}
+        <Stack.Screen
+          name="ReportDetail"
+          component={ReportDetailScreen}
           options={{ title: 'Report' }}
         />
-        <Tab.Screen 
-          name="Reports" 
-          component={ReportsScreen}
-          options={{ title: 'My Reports' }}
+        <Stack.Screen
+          name="EditReport"
+          component={EditReportScreen}
+          options={{ title: 'Edit Report' }}
+        />
+        <Stack.Screen
+          name="NotificationSettings"
+          component={NotificationSettingsScreen}
+          options={{ title: 'Notifications' }}
+        />
+        <Stack.Screen
+          name="NearbyFeed"
+          component={NearbyFeedScreen}
+          options={{ title: 'Near You' }}
+        />
+        <Stack.Screen
+          name="ConditionWatch"
+          component={ConditionWatchScreen}
+          options={{ title: 'Condition Watch' }}
+        />
+        <Stack.Screen
+          name="ProjectCondition"
+          component={ProjectConditionScreen}
+          options={{ title: 'Project Condition' }}
         />
-      </Tab.Navigator>
+      </Stack.Navigator>
     </NavigationContainer>
   );
 }
@@ -0,0 +1,71 @@
+// Exports public.admin_boundaries into the dataset bundled with the app:
+// assets/psgc/index.json with regions and provinces, one assets/psgc/<code>.json
+// per province (or region without provinces) with its cities and barangays,
+// and the src/lib/psgcShards.ts manifest that requires them.
+require('dotenv').config({ path: ['.env.local', '.env'] });
+const fs = require('fs');
+const path = require('path');
+const { createClient } = require('@supabase/supabase-js');
+
+const ROOT = path.join(__dirname, '..');
+const ASSET_DIR = path.join(ROOT, 'assets', 'psgc');
+const MANIFEST = path.join(ROOT, 'src', 'lib', 'psgcShards.ts');
+
+const exportCollection = async (supabase, shard) => {
+  const { data, error } = await supabase.rpc('psgc_export', { p_shard: shard });
+  if (error) {
+    throw new Error(`Could not export ${shard || 'the index'}: ${error.message}`);
+  }
+  return data;
+};
+
+const writeManifest = (codes) => {
+  const entries = codes
+    .map(code => `  '${code}': () => require('../../assets/psgc/${code}.json'),`)
+    .join('\n');
+  fs.writeFileSync(MANIFEST, `// Generated by scripts/export-psgc.js from public.admin_boundaries; do not edit.
+// Run \`npm run psgc:export\` to bundle the boundaries into assets/psgc. Each
+// loader requires its file only when called, so a lookup parses the index and
+// one shard instead of the whole country.
+import type { BoundaryCollection } from './adminAreas';
+
+export const loadPsgcIndex = (): BoundaryCollection | null => require('../../assets/psgc/index.json');
+
+export const psgcShards: Record<string, () => BoundaryCollection> = {
+${entries}
+};
+`);
+};
+
+const main = async () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY');
+  }
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  fs.rmSync(ASSET_DIR, { recursive: true, force: true });
+  fs.mkdirSync(ASSET_DIR, { recursive: true });
+
+  const index = await exportCollection(supabase, null);
+  fs.writeFileSync(path.join(ASSET_DIR, 'index.json'), JSON.stringify(index));
+
+  const codes = index.features
+    .filter(feature => feature.properties.shard)
+    .map(feature => feature.properties.code)
+    .sort();
+  // One at a time; the larger provinces take a while to simplify
+  for (const code of codes) {
+    const shard = await exportCollection(supabase, code);
+    fs.writeFileSync(path.join(ASSET_DIR, `${code}.json`), JSON.stringify(shard));
+  }
+
+  writeManifest(codes);
+  console.log(`✅ Exported the index and ${codes.length} shards to assets/psgc`);
+};
+
+main().catch(error => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
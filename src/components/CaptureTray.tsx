@@ -0,0 +1,130 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ReportMedia } from '../lib/reports';
+
+interface CaptureTrayProps {
+  media: ReportMedia[];
+  onChange: (media: ReportMedia[]) => void;
+}
+
+const formatDuration = (durationMs?: number) => {
+  if (!durationMs) {
+    return '';
+  }
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Horizontal strip of captured photos and videos. Items can be moved left or
+// right and removed; the first item is used as the report's cover.
+const CaptureTray: React.FC<CaptureTrayProps> = ({ media, onChange }) => {
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= media.length) {
+      return;
+    }
+    const next = [...media];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    onChange(media.filter((_, current) => current !== index));
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tray}>
+      {media.map((item, index) => (
+        <View key={item.mediaId} style={styles.item}>
+          <Image source={{ uri: item.thumbnailUri || item.uri }} style={styles.thumbnail} />
+          {index === 0 && (
+            <View style={styles.coverBadge}>
+              <Text style={styles.coverBadgeText}>Cover</Text>
+            </View>
+          )}
+          {item.kind === 'video' && (
+            <View style={styles.videoBadge}>
+              <Ionicons name="videocam" size={12} color="white" />
+              <Text style={styles.videoBadgeText}>{formatDuration(item.durationMs)}</Text>
+            </View>
+          )}
+          <TouchableOpacity style={styles.removeButton} onPress={() => remove(index)}>
+            <Ionicons name="close-circle" size={24} color="#e74c3c" />
+          </TouchableOpacity>
+          <View style={styles.moveButtons}>
+            <TouchableOpacity onPress={() => move(index, -1)} disabled={index === 0}>
+              <Ionicons name="chevron-back" size={20} color={index === 0 ? '#bdc3c7' : '#2c3e50'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => move(index, 1)} disabled={index === media.length - 1}>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={index === media.length - 1 ? '#bdc3c7' : '#2c3e50'}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  tray: {
+    marginBottom: 15,
+  },
+  item: {
+    width: 110,
+    marginRight: 10,
+  },
+  thumbnail: {
+    width: 110,
+    height: 110,
+    borderRadius: 8,
+    backgroundColor: '#ecf0f1',
+  },
+  coverBadge: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    backgroundColor: 'rgba(52,152,219,0.9)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  coverBadgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  videoBadge: {
+    position: 'absolute',
+    bottom: 34,
+    left: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  videoBadgeText: {
+    color: 'white',
+    fontSize: 10,
+    marginLeft: 4,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+  },
+  moveButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+});
+
+export default CaptureTray;
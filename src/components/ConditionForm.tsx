@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  ChecklistOption,
+  ConditionRating,
+  conditionRatings,
+  hazardOptions,
+  materialOptions,
+} from '../lib/conditions';
+
+export interface StructuredObservation {
+  condition: ConditionRating;
+  materials: string[];
+  hazards: string[];
+  // ISO timestamp; null means "at submission time"
+  observedAt: string | null;
+}
+
+export const emptyStructuredObservation: StructuredObservation = {
+  condition: 'unknown',
+  materials: [],
+  hazards: [],
+  observedAt: null,
+};
+
+interface ConditionFormProps {
+  value: StructuredObservation;
+  onChange: (value: StructuredObservation) => void;
+}
+
+const toggle = (list: string[], id: string) =>
+  list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+const formatObservedAt = (observedAt: string | null) => {
+  if (!observedAt) {
+    return 'Now';
+  }
+  const date = new Date(observedAt);
+  return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// Condition rating, materials, hazards and observation time for a report.
+const ConditionForm: React.FC<ConditionFormProps> = ({ value, onChange }) => {
+  // Android has no combined date-time picker, so it is shown as two dialogs
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+
+  const update = (changes: Partial<StructuredObservation>) => onChange({ ...value, ...changes });
+
+  const handlePickerChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (event.type !== 'set' || !date) {
+      setPickerMode(null);
+      return;
+    }
+    const picked = date > new Date() ? new Date() : date;
+    update({ observedAt: picked.toISOString() });
+    if (Platform.OS === 'android') {
+      setPickerMode(pickerMode === 'date' ? 'time' : null);
+    }
+  };
+
+  const renderChecklist = (options: ChecklistOption[], selected: string[], onToggle: (id: string) => void) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const active = selected.includes(option.id);
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onToggle(option.id)}
+          >
+            {active && <Ionicons name="checkmark" size={14} color="#fff" style={styles.chipIcon} />}
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View>
+      <Text style={styles.label}>Condition</Text>
+      <View style={styles.conditionOptions}>
+        {conditionRatings.map((option) => {
+          const active = value.condition === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.conditionOption, active && { backgroundColor: option.color, borderColor: option.color }]}
+              onPress={() => update({ condition: active ? 'unknown' : option.id })}
+            >
+              <Text style={[styles.conditionText, active && styles.chipTextActive]}>{option.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>Materials</Text>
+      {renderChecklist(materialOptions, value.materials, (id) => update({ materials: toggle(value.materials, id) }))}
+
+      <Text style={styles.label}>Hazards</Text>
+      {renderChecklist(hazardOptions, value.hazards, (id) => update({ hazards: toggle(value.hazards, id) }))}
+
+      <Text style={styles.label}>Observed at</Text>
+      <View style={styles.observedAtRow}>
+        <TouchableOpacity style={styles.observedAtButton} onPress={() => setPickerMode(pickerMode ? null : 'date')}>
+          <Ionicons name="time-outline" size={18} color="#3498db" />
+          <Text style={styles.observedAtText}>{formatObservedAt(value.observedAt)}</Text>
+        </TouchableOpacity>
+        {value.observedAt && (
+          <TouchableOpacity onPress={() => update({ observedAt: null })}>
+            <Text style={styles.resetText}>Use now</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {pickerMode && (
+        <DateTimePicker
+          value={value.observedAt ? new Date(value.observedAt) : new Date()}
+          mode={Platform.OS === 'android' ? pickerMode : 'datetime'}
+          maximumDate={new Date()}
+          onChange={handlePickerChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  conditionOptions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 18,
+  },
+  conditionOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginHorizontal: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+  },
+  conditionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  chipIcon: {
+    marginRight: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  observedAtRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  observedAtButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    borderRadius: 8,
+    marginRight: 10,
+  },
+  observedAtText: {
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#2c3e50',
+  },
+  resetText: {
+    color: '#3498db',
+    fontWeight: '600',
+  },
+});
+
+export default ConditionForm;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { conditionRatings, ConditionRating } from '../lib/conditions';
+import { ConditionObservation } from '../lib/conditionComparison';
+
+interface ConditionTimelineProps {
+  // Oldest first
+  observations: ConditionObservation[];
+  conditionOfficial: ConditionRating;
+  lastInspectedAt: string | null;
+}
+
+const ROW_HEIGHT = 28;
+const DOT_SIZE = 10;
+
+// Observations plotted over time, one row per rating. The official rating's
+// row is highlighted and the last inspection is drawn as a vertical line.
+const ConditionTimeline: React.FC<ConditionTimelineProps> = ({ observations, conditionOfficial, lastInspectedAt }) => {
+  const [plotWidth, setPlotWidth] = useState(0);
+
+  const times = observations.map(observation => new Date(observation.observedAt).getTime());
+  const inspectedTime = lastInspectedAt ? new Date(lastInspectedAt).getTime() : null;
+  const bounds = inspectedTime !== null ? [...times, inspectedTime] : times;
+  const start = Math.min(...bounds);
+  const end = Math.max(...bounds);
+  // A single point in time is drawn in the middle
+  const toX = (time: number) =>
+    (end === start ? 0.5 : (time - start) / (end - start)) * (plotWidth - DOT_SIZE);
+
+  const onLayout = (event: LayoutChangeEvent) => setPlotWidth(event.nativeEvent.layout.width);
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        <View style={styles.labels}>
+          {conditionRatings.map(option => (
+            <Text
+              key={option.id}
+              style={[styles.label, option.id === conditionOfficial && styles.labelOfficial]}
+              numberOfLines={1}
+            >
+              {option.name}
+            </Text>
+          ))}
+        </View>
+        <View style={styles.plot} onLayout={onLayout}>
+          {conditionRatings.map(option => (
+            <View
+              key={option.id}
+              style={[styles.row, option.id === conditionOfficial && styles.rowOfficial]}
+            />
+          ))}
+          {plotWidth > 0 && inspectedTime !== null && (
+            <View style={[styles.inspection, { left: toX(inspectedTime) + DOT_SIZE / 2 }]} />
+          )}
+          {plotWidth > 0 && observations.map((observation, index) => {
+            const row = conditionRatings.findIndex(option => option.id === observation.observedCondition);
+            if (row === -1) {
+              return null;
+            }
+            return (
+              <View
+                key={observation.reportId}
+                style={[
+                  styles.dot,
+                  {
+                    left: toX(times[index]),
+                    top: row * ROW_HEIGHT + (ROW_HEIGHT - DOT_SIZE) / 2,
+                    backgroundColor: conditionRatings[row].color,
+                  },
+                ]}
+              />
+            );
+          })}
+        </View>
+      </View>
+      <View style={styles.axis}>
+        <Text style={styles.axisText}>{new Date(start).toLocaleDateString()}</Text>
+        {end !== start && <Text style={styles.axisText}>{new Date(end).toLocaleDateString()}</Text>}
+      </View>
+      <View style={styles.key}>
+        <View style={[styles.keySwatch, styles.rowOfficial]} />
+        <Text style={styles.keyText}>Official rating</Text>
+        {inspectedTime !== null && (
+          <>
+            <View style={styles.keyLine} />
+            <Text style={styles.keyText}>Last inspection</Text>
+          </>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+  },
+  labels: {
+    width: 56,
+  },
+  label: {
+    height: ROW_HEIGHT,
+    lineHeight: ROW_HEIGHT,
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  labelOfficial: {
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  plot: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: '#e1e8ed',
+  },
+  row: {
+    height: ROW_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  rowOfficial: {
+    backgroundColor: '#ebf5fb',
+  },
+  inspection: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#3498db',
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginLeft: 56,
+    marginTop: 4,
+  },
+  axisText: {
+    fontSize: 11,
+    color: '#bdc3c7',
+  },
+  key: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  keySwatch: {
+    width: 14,
+    height: 10,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    marginRight: 4,
+  },
+  keyLine: {
+    width: 2,
+    height: 12,
+    backgroundColor: '#3498db',
+    marginLeft: 12,
+    marginRight: 4,
+  },
+  keyText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+});
+
+export default ConditionTimeline;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TouchableWithoutFeedback } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ExportFormat, exportFormats } from '../lib/reportExport';
+
+interface ExportSheetProps {
+  visible: boolean;
+  count: number;
+  onSelect: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+// Bottom sheet for picking an export format. Android alerts are limited to
+// three buttons, which leaves no room for Cancel.
+const ExportSheet: React.FC<ExportSheetProps> = ({ visible, count, onSelect, onClose }) => (
+  <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+    <TouchableWithoutFeedback onPress={onClose}>
+      <View style={styles.backdrop} />
+    </TouchableWithoutFeedback>
+    <SafeAreaView edges={['bottom']} style={styles.sheet}>
+      <Text style={styles.title}>
+        Export {count} report{count === 1 ? '' : 's'}
+      </Text>
+      {exportFormats.map(format => (
+        <TouchableOpacity key={format.id} style={styles.option} onPress={() => onSelect(format.id)}>
+          <Ionicons name={format.icon} size={24} color="#3498db" />
+          <View style={styles.optionText}>
+            <Text style={styles.optionName}>{format.name}</Text>
+            <Text style={styles.optionDescription}>{format.description}</Text>
+          </View>
+          <Ionicons name="share-outline" size={20} color="#bdc3c7" />
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 15,
+  },
+  optionName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  cancelButton: {
+    padding: 15,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+});
+
+export default ExportSheet;
@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ScrollView,
+  Animated,
+  PanResponder,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { fetchProjectDetails, getProjectTypeIcon, ProjectDetails } from '../lib/projects';
+import { fetchProjectReports, SubmittedReport } from '../lib/myReports';
+import { featureCondition, getCondition } from '../lib/conditions';
+import { LatLng } from '../lib/geo';
+import { ProjectFeature, ProjectFeatureProperties } from '../lib/projectTiles';
+import { getMapLayer } from '../lib/mapLayers';
+import NearbyReportCard from './NearbyReportCard';
+
+interface FeatureDetailSheetProps {
+  // GeoJSON feature from the map; null hides the sheet
+  feature: ProjectFeature | null;
+  origin: LatLng | null;
+  onClose: () => void;
+  onReportIssue: (feature: ProjectFeature) => void;
+  onOpenReport: (reportId: string) => void;
+}
+
+type Row = [label: string, value: string | null];
+
+// Share of the window covered by the sheet before and after swiping up
+const COLLAPSED_SHARE = 0.5;
+const EXPANDED_SHARE = 0.9;
+// Drag distance that counts as a swipe
+const SWIPE_THRESHOLD = 60;
+
+const RECENT_REPORTS_COUNT = 5;
+
+// DPWH leaves missing attributes blank or as "N/A"
+const text = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const trimmed = String(value).trim();
+  return trimmed === '' || trimmed.toUpperCase() === 'N/A' ? null : trimmed;
+};
+
+const withUnit = (value: unknown, unit: string): string | null => {
+  const formatted = text(value);
+  return formatted ? `${formatted} ${unit}` : null;
+};
+
+// Date-only values (start_date, target_end_date) are calendar days; new Date()
+// would read them as UTC midnight and show the day before west of UTC
+const date = (value: string | null | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const parsed = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(value);
+  return parsed.toLocaleDateString();
+};
+
+const peso = (value: number | null | undefined): string | null =>
+  value === null || value === undefined
+    ? null
+    : `₱${Number(value).toLocaleString('en-PH', { maximumFractionDigits: 0 })}`;
+
+const featureTitle = (props: ProjectFeatureProperties): string =>
+  text(props.BR_NAME)
+  || (text(props.KM_POST) ? `Kilometer Post ${props.KM_POST}` : null)
+  || text(props.SITE_NAME)
+  || text(props.name)
+  || 'Infrastructure';
+
+// Name of the map layer the feature was loaded for
+const featureKind = (props: ProjectFeatureProperties): string => getMapLayer(props.layer).name;
+
+// Bottom sheet with the attributes of a DPWH feature, its official details
+// and recent approved reports. Swipe up on the handle to expand, down to close.
+const FeatureDetailSheet: React.FC<FeatureDetailSheetProps> = ({
+  feature,
+  origin,
+  onClose,
+  onReportIssue,
+  onOpenReport,
+}) => {
+  const { height } = useWindowDimensions();
+  const collapsedOffset = height * (EXPANDED_SHARE - COLLAPSED_SHARE);
+  const translateY = useRef(new Animated.Value(collapsedOffset)).current;
+  const offset = useRef(collapsedOffset);
+  const [details, setDetails] = useState<ProjectDetails | null>(null);
+  const [reports, setReports] = useState<SubmittedReport[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const projectId: string | null = feature?.properties?.project_id ?? null;
+
+  useEffect(() => {
+    if (!feature) {
+      return;
+    }
+    offset.current = collapsedOffset;
+    translateY.setValue(collapsedOffset);
+  }, [feature]);
+
+  useEffect(() => {
+    setDetails(null);
+    setReports([]);
+    if (!projectId) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([fetchProjectDetails(projectId), fetchProjectReports(projectId, RECENT_REPORTS_COUNT)])
+      .then(([loadedDetails, loadedReports]) => {
+        if (!cancelled) {
+          setDetails(loadedDetails);
+          setReports(loadedReports);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading project details:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const snapTo = (target: number) => {
+    offset.current = target;
+    Animated.spring(translateY, { toValue: target, useNativeDriver: true, bounciness: 0 }).start();
+  };
+
+  const panResponder = useMemo(
+    () => PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dy) > 5,
+      onPanResponderMove: (_, gesture) => {
+        translateY.setValue(Math.max(0, offset.current + gesture.dy));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dy < -SWIPE_THRESHOLD) {
+          snapTo(0);
+        } else if (gesture.dy > SWIPE_THRESHOLD) {
+          if (offset.current === 0) {
+            snapTo(collapsedOffset);
+          } else {
+            onClose();
+          }
+        } else {
+          snapTo(offset.current);
+        }
+      },
+    }),
+    [collapsedOffset, onClose]
+  );
+
+  if (!feature) {
+    return null;
+  }
+
+  const props = feature.properties;
+  const rating = getCondition(featureCondition(props));
+
+  const sections: { title: string; rows: Row[] }[] = [
+    {
+      title: 'Identity',
+      rows: [
+        ['Type', featureKind(props)],
+        ['Bridge ID', text(props.BRIDGE_ID)],
+        ['Kilometer post', text(props.KM_POST)],
+        ['Route number', text(props.ROUTE_NO)],
+        ['Project name', text(props.name) !== featureTitle(props) ? text(props.name) : null],
+      ],
+    },
+    {
+      title: 'Location',
+      rows: [
+        ['Road', text(props.ROAD_NAME)],
+        ['Barangay', text(props.BRGY) || text(props.barangay)],
+        ['City / Municipality', text(props.MUNICIPAL) || text(props.city)],
+        ['Province', text(props.PROVINCE)],
+        ['Region', text(props.REGION) || text(props.SUPER_REGI)],
+        ['Island group', text(props.ISLAND)],
+        ['Engineering office', text(props.DEO)],
+        ['Congressional district', text(props.CONG_DIST)],
+      ],
+    },
+    {
+      title: 'Structure',
+      rows: [
+        ['Bridge type', [text(props.BR_TYPE1), text(props.BR_TYPE2)].filter(Boolean).join(' ') || null],
+        ['Material', text(details?.primary_material)],
+        ['Design', text(details?.design_type)],
+        ['Length', withUnit(props.BR_LENGTH, 'm')
+          || withUnit(details?.length_m, 'm')
+          || (props.Shape__Length ? `${(Number(props.Shape__Length) / 1000).toFixed(1)} km` : null)],
+        ['Width', withUnit(props.BR_WIDTH, 'm') || withUnit(details?.width_m, 'm')],
+        ['Lanes', text(props.NUM_LANES) || text(details?.lanes)],
+        ['Spans', text(props.NUM_SPAN)],
+        ['Year built', text(props.Actual_Year) || text(props.YR_CONST) || text(details?.year_built)],
+        ['Load limit', withUnit(props.LOAD_LIMIT, 't')],
+      ],
+    },
+    {
+      title: 'Condition',
+      rows: [
+        ['Inventory rating', text(props.CONDITION)],
+        ['Last inspected', date(details?.last_inspected_at)],
+        ['Remarks', text(props.REMARKS)],
+      ],
+    },
+    {
+      title: 'Accountability',
+      rows: [
+        ['Agency', text(details?.agency)],
+        ['Status', text(details?.status_official)],
+        ['Budget', peso(details?.budget_amount)],
+        ['Fund source', text(details?.fund_source)],
+        ['Contractor', text(details?.contractor)],
+        ['Started', date(details?.start_date)],
+        ['Target completion', date(details?.target_end_date)],
+      ],
+    },
+  ];
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.wrapper}>
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.backdrop} />
+        </TouchableWithoutFeedback>
+        <Animated.View
+          style={[styles.sheet, { height: height * EXPANDED_SHARE, transform: [{ translateY }] }]}
+        >
+          <SafeAreaView edges={['bottom']} style={styles.sheetContent}>
+            {/* Drag handle and title; the swipe area */}
+            <View {...panResponder.panHandlers} style={styles.header}>
+              <View style={styles.handle} />
+              <View style={styles.titleRow}>
+                <View style={styles.typeIcon}>
+                  <Ionicons name={getProjectTypeIcon(props.type)} size={18} color="#fff" />
+                </View>
+                <Text style={styles.title} numberOfLines={2}>{featureTitle(props)}</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <Ionicons name="close" size={24} color="#7f8c8d" />
+                </TouchableOpacity>
+              </View>
+              {rating.id !== 'unknown' && (
+                <View style={[styles.conditionChip, { backgroundColor: rating.color }]}>
+                  <Text style={styles.conditionText}>{rating.name} condition</Text>
+                </View>
+              )}
+            </View>
+
+            <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+              {projectId && (
+                <TouchableOpacity style={styles.reportButton} onPress={() => onReportIssue(feature)}>
+                  <Ionicons name="camera" size={20} color="#fff" />
+                  <Text style={styles.reportButtonText}>Report an Issue Here</Text>
+                </TouchableOpacity>
+              )}
+
+              {sections.map(section => {
+                const rows = section.rows.filter(([, value]) => value);
+                if (rows.length === 0) {
+                  return null;
+                }
+                return (
+                  <View key={section.title} style={styles.section}>
+                    <Text style={styles.sectionTitle}>{section.title}</Text>
+                    {rows.map(([label, value]) => (
+                      <View key={label} style={styles.row}>
+                        <Text style={styles.rowLabel}>{label}</Text>
+                        <Text style={styles.rowValue}>{value}</Text>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+
+              {projectId && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Recent Reports</Text>
+                  {loading ? (
+                    <ActivityIndicator style={styles.loader} color="#3498db" />
+                  ) : reports.length === 0 ? (
+                    <Text style={styles.emptyText}>No approved reports for this project yet.</Text>
+                  ) : (
+                    reports.map(report => (
+                      <NearbyReportCard
+                        key={report.reportId}
+                        report={report}
+                        origin={origin}
+                        onPress={() => onOpenReport(report.reportId)}
+                      />
+                    ))
+                  )}
+                </View>
+              )}
+            </ScrollView>
+          </SafeAreaView>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  sheetContent: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: '#bdc3c7',
+    marginVertical: 10,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  typeIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#3498db',
+    marginRight: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginRight: 10,
+  },
+  conditionChip: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 14,
+    marginTop: 10,
+    marginLeft: 42,
+  },
+  conditionText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  body: {
+    flex: 1,
+  },
+  bodyContent: {
+    padding: 20,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#e74c3c',
+    padding: 14,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  reportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  section: {
+    marginTop: 10,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    textTransform: 'uppercase',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  rowLabel: {
+    width: 150,
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    paddingVertical: 6,
+  },
+});
+
+export default FeatureDetailSheet;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { FlagReason, flagReasons, MAX_FLAG_NOTE_LENGTH } from '../lib/reportFlags';
+
+interface FlagReportSheetProps {
+  visible: boolean;
+  submitting: boolean;
+  onSubmit: (reason: FlagReason, note: string) => void;
+  onClose: () => void;
+}
+
+const FlagReportSheet: React.FC<FlagReportSheetProps> = ({ visible, submitting, onSubmit, onClose }) => {
+  const [reason, setReason] = useState<FlagReason | null>(null);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setNote('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView style={styles.wrapper} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.backdrop} />
+        </TouchableWithoutFeedback>
+        <SafeAreaView edges={['bottom']} style={styles.sheet}>
+          <Text style={styles.title}>Flag Report</Text>
+          <Text style={styles.subtitle}>Moderators will review this report. Why should they take a look?</Text>
+
+          {flagReasons.map(option => {
+            const selected = reason === option.id;
+            return (
+              <TouchableOpacity key={option.id} style={styles.option} onPress={() => setReason(option.id)}>
+                <Ionicons name={option.icon} size={20} color={selected ? '#e74c3c' : '#7f8c8d'} />
+                <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{option.name}</Text>
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? '#e74c3c' : '#bdc3c7'}
+                />
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInput
+            style={styles.noteInput}
+            placeholder="Add a note (optional)"
+            value={note}
+            onChangeText={setNote}
+            maxLength={MAX_FLAG_NOTE_LENGTH}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!reason || submitting) && styles.disabledButton]}
+            onPress={() => reason && onSubmit(reason, note)}
+            disabled={!reason || submitting}
+          >
+            <Text style={styles.submitButtonText}>{submitting ? 'Sending...' : 'Send Flag'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 4,
+    marginBottom: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 16,
+    color: '#2c3e50',
+  },
+  optionTextSelected: {
+    fontWeight: '600',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    minHeight: 70,
+    marginTop: 15,
+  },
+  submitButton: {
+    backgroundColor: '#e74c3c',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  disabledButton: {
+    backgroundColor: '#bdc3c7',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    padding: 15,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+});
+
+export default FlagReportSheet;
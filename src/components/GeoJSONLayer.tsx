@@ -1,47 +1,117 @@
-import React from 'react';
-import { Polyline, Marker } from 'react-native-maps';
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Polyline, Marker, Region } from 'react-native-maps';
+import { clusterPoints, PointCluster } from '../lib/clustering';
+import { getCondition } from '../lib/conditions';
+import { conditionSymbology, SymbolClass, Symbology } from '../lib/symbology';
+import { ProjectGeometry } from '../lib/projects';
+import { ProjectFeatureProperties } from '../lib/projectTiles';
 
 interface GeoJSONFeature {
   type: 'Feature';
-  geometry: {
-    type: 'LineString' | 'Point' | 'Polygon';
-    coordinates: number[][] | number[];
-  };
-  properties: {
-    [key: string]: any;
-  };
+  geometry: ProjectGeometry;
+  // Partial so plain geometries (e.g. a report's project) can be drawn too
+  properties: Partial<ProjectFeatureProperties>;
 }
 
-interface GeoJSONData {
+interface GeoJSONData<F extends GeoJSONFeature> {
   type: 'FeatureCollection';
-  features: GeoJSONFeature[];
+  features: F[];
 }
 
-interface GeoJSONLayerProps {
-  data: GeoJSONData;
+// Generic so onFeaturePress hands back the caller's own feature type
+interface GeoJSONLayerProps<F extends GeoJSONFeature> {
+  data: GeoJSONData<F>;
   strokeColor?: string;
   strokeWidth?: number;
-  onFeaturePress?: (feature: GeoJSONFeature) => void;
+  onFeaturePress?: (feature: F) => void;
+  // When set, Point features are clustered for this region
+  clusterRegion?: Region;
+  onClusterPress?: (cluster: PointCluster) => void;
+  // Colour and size each feature from its properties; unmatched features
+  // keep strokeColor and strokeWidth
+  symbology?: Symbology | null;
 }
 
-const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
+// Diameter of a symbolized point at size 1
+const POINT_SIZE = 12;
+
+const isValidPoint = (feature: GeoJSONFeature) =>
+  feature?.geometry?.type === 'Point'
+  && Array.isArray(feature.geometry.coordinates)
+  && feature.geometry.coordinates.length >= 2;
+
+// A cluster takes the colour of its most severe member so one problem feature
+// is not hidden among good ones: the worst condition without a preset or with
+// the Condition preset, otherwise the member class with the largest symbol
+// (the earlier legend entry on a tie). Clusters with neither keep the layer colour.
+const clusterColor = (cluster: PointCluster, symbology: Symbology | null | undefined, fallback: string) => {
+  if (!symbology || symbology.id === conditionSymbology.id) {
+    return cluster.worstCondition === 'unknown' ? fallback : getCondition(cluster.worstCondition).color;
+  }
+  const present = new Set<SymbolClass>();
+  cluster.members.forEach(member => {
+    const symbol = symbology.classify(member.properties);
+    if (symbol) {
+      present.add(symbol);
+    }
+  });
+  const severest = symbology.classes
+    .filter(symbolClass => present.has(symbolClass))
+    .reduce<SymbolClass | null>((worst, symbolClass) => (!worst || symbolClass.size > worst.size ? symbolClass : worst), null);
+  return severest ? severest.color : fallback;
+};
+
+const GeoJSONLayer = <F extends GeoJSONFeature>({
   data,
   strokeColor = '#2196F3',
   strokeWidth = 2,
   onFeaturePress,
-}) => {
+  clusterRegion,
+  onClusterPress,
+  symbology,
+}: GeoJSONLayerProps<F>) => {
+  const clustered = useMemo(
+    () => (clusterRegion && data?.features ? clusterPoints(data.features.filter(isValidPoint), clusterRegion) : null),
+    [data, clusterRegion]
+  );
+
   if (!data || !data.features) {
     return null;
   }
 
+  // Clustered points are replaced by the clusters plus the points left on their own
+  const features = clustered
+    ? [...data.features.filter(feature => !isValidPoint(feature)), ...clustered.singles]
+    : data.features;
+
   return (
     <>
-      {data.features.map((feature, index) => {
+      {clustered?.clusters.map(cluster => {
+        const color = clusterColor(cluster, symbology, strokeColor);
+        return (
+          <Marker
+            key={`cluster-${cluster.id}-${cluster.count}-${color}`}
+            coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+            onPress={() => onClusterPress && onClusterPress(cluster)}
+            tracksViewChanges={false}
+          >
+            <View style={[styles.cluster, { backgroundColor: color }, cluster.count >= 100 && styles.clusterLarge]}>
+              <Text style={styles.clusterText}>{cluster.count}</Text>
+            </View>
+          </Marker>
+        );
+      })}
+      {features.map((feature, index) => {
         // Skip features with null or invalid geometry
         if (!feature || !feature.geometry || !feature.geometry.type) {
           return null;
         }
 
+        const symbol = symbology ? symbology.classify(feature.properties) : null;
+        const color = symbol ? symbol.color : strokeColor;
+        const width = strokeWidth * (symbol ? symbol.size : 1);
+
         if (feature.geometry.type === 'LineString') {
           // Skip if coordinates are invalid
           if (!feature.geometry.coordinates || !Array.isArray(feature.geometry.coordinates)) {
@@ -50,7 +120,7 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
           
           // Convert coordinates to the format react-native-maps expects
           const coordinates = feature.geometry.coordinates
-            .filter((coord: any) => coord && Array.isArray(coord) && coord.length >= 2)
+            .filter((coord: number[]) => coord && Array.isArray(coord) && coord.length >= 2)
             .map((coord: number[]) => ({
               latitude: coord[1],
               longitude: coord[0],
@@ -65,8 +135,8 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
             <Polyline
               key={`line-${index}`}
               coordinates={coordinates}
-              strokeColor={strokeColor}
-              strokeWidth={strokeWidth}
+              strokeColor={color}
+              strokeWidth={width}
               onPress={() => onFeaturePress && onFeaturePress(feature)}
             />
           );
@@ -82,7 +152,7 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
             <React.Fragment key={`multiline-container-${index}`}>
               {feature.geometry.coordinates.map((lineCoords: number[][], lineIndex: number) => {
                 const coordinates = lineCoords
-                  .filter((coord: any) => coord && Array.isArray(coord) && coord.length >= 2)
+                  .filter((coord: number[]) => coord && Array.isArray(coord) && coord.length >= 2)
                   .map((coord: number[]) => ({
                     latitude: coord[1],
                     longitude: coord[0],
@@ -96,8 +166,8 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
                   <Polyline
                     key={`multiline-${index}-${lineIndex}`}
                     coordinates={coordinates}
-                    strokeColor={strokeColor}
-                    strokeWidth={strokeWidth}
+                    strokeColor={color}
+                    strokeWidth={width}
                     onPress={() => onFeaturePress && onFeaturePress(feature)}
                   />
                 );
@@ -115,15 +185,31 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
           
           return (
             <Marker
-              key={`point-${index}`}
+              key={`point-${index}-${symbology?.id ?? 'default'}`}
               coordinate={{
                 latitude: coord[1],
                 longitude: coord[0],
               }}
-              title={feature.properties.BR_NAME || feature.properties.name || 'Infrastructure'}
-              description={feature.properties.ROAD_NAME || feature.properties.description || 'DPWH Infrastructure'}
+              title={String(feature.properties.BR_NAME || feature.properties.name || 'Infrastructure')}
+              description={String(feature.properties.ROAD_NAME || feature.properties.description || 'DPWH Infrastructure')}
+              pinColor={color}
               onPress={() => onFeaturePress && onFeaturePress(feature)}
-            />
+              tracksViewChanges={!symbol}
+            >
+              {symbol ? (
+                <View
+                  style={[
+                    styles.point,
+                    {
+                      width: POINT_SIZE * symbol.size,
+                      height: POINT_SIZE * symbol.size,
+                      borderRadius: (POINT_SIZE * symbol.size) / 2,
+                      backgroundColor: color,
+                    },
+                  ]}
+                />
+              ) : undefined}
+            </Marker>
           );
         }
 
@@ -137,7 +223,7 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
           
           // For polygons, we'll just show the outline
           const coordinates = feature.geometry.coordinates[0]
-            .filter((coord: any) => coord && Array.isArray(coord) && coord.length >= 2)
+            .filter((coord: number[]) => coord && Array.isArray(coord) && coord.length >= 2)
             .map((coord: number[]) => ({
               latitude: coord[1],
               longitude: coord[0],
@@ -152,9 +238,9 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
             <Polyline
               key={`polygon-${index}`}
               coordinates={coordinates}
-              strokeColor={strokeColor}
-              strokeWidth={strokeWidth}
-              fillColor={strokeColor + '20'} // Add transparency
+              strokeColor={color}
+              strokeWidth={width}
+              fillColor={color + '20'} // Add transparency
               onPress={() => onFeaturePress && onFeaturePress(feature)}
             />
           );
@@ -166,4 +252,31 @@ const GeoJSONLayer: React.FC<GeoJSONLayerProps> = ({
   );
 };
 
+const styles = StyleSheet.create({
+  point: {
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  cluster: {
+    minWidth: 34,
+    height: 34,
+    borderRadius: 17,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  clusterLarge: {
+    minWidth: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  clusterText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+});
+
 export default GeoJSONLayer;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import MapView, { Circle, MapPressEvent, Marker, MarkerDragStartEndEvent } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { snapToProject } from '../lib/projects';
+import { LatLng } from '../lib/geo';
+
+export interface GpsFix extends LatLng {
+  // Horizontal accuracy radius in meters, as reported by expo-location
+  accuracy: number | null;
+}
+
+interface LocationPickerProps {
+  location: LatLng;
+  gpsFix: GpsFix | null;
+  // `snapped` when the point was moved onto a DPWH project geometry
+  onChange: (location: LatLng, snapped: boolean) => void;
+}
+
+// A dropped pin closer than this to a DPWH road or bridge is moved onto it
+const SNAP_DISTANCE_M = 30;
+
+// Embedded map with a draggable pin for correcting GPS drift. Drops near a
+// DPWH project geometry snap onto that geometry.
+const LocationPicker: React.FC<LocationPickerProps> = ({ location, gpsFix, onChange }) => {
+  const [snappedTo, setSnappedTo] = useState<string | null>(null);
+  const [snapping, setSnapping] = useState(false);
+  const mapRef = useRef<MapView | null>(null);
+
+  // Follow location changes made outside the map (EXIF, "use device GPS")
+  useEffect(() => {
+    mapRef.current?.animateCamera({ center: location }, { duration: 300 });
+  }, [location.latitude, location.longitude]);
+
+  // Counts drops, so a snap that answers after a newer drop is ignored
+  const dropCount = useRef(0);
+
+  const snapToInfrastructure = async (dropped: LatLng): Promise<{ point: LatLng; name: string } | null> => {
+    try {
+      const snap = await snapToProject(dropped.latitude, dropped.longitude, SNAP_DISTANCE_M);
+      return snap ? { point: { latitude: snap.latitude, longitude: snap.longitude }, name: snap.name } : null;
+    } catch (error) {
+      // Snapping is a convenience; keep the dropped point when offline
+      console.warn('⚠️ Could not snap to nearby infrastructure:', error);
+      return null;
+    }
+  };
+
+  const movePin = async (dropped: LatLng) => {
+    const drop = ++dropCount.current;
+    onChange(dropped, false);
+    setSnappedTo(null);
+    setSnapping(true);
+    const snapped = await snapToInfrastructure(dropped);
+    if (drop !== dropCount.current) {
+      return;
+    }
+    setSnapping(false);
+    if (snapped) {
+      setSnappedTo(snapped.name);
+      onChange(snapped.point, true);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.mapContainer}>
+        <MapView
+          ref={mapRef}
+          style={styles.map}
+          initialRegion={{
+            ...location,
+            latitudeDelta: 0.004,
+            longitudeDelta: 0.004,
+          }}
+          onPress={(event: MapPressEvent) => movePin(event.nativeEvent.coordinate)}
+        >
+          {gpsFix && gpsFix.accuracy ? (
+            <Circle
+              center={gpsFix}
+              radius={gpsFix.accuracy}
+              strokeColor="rgba(52,152,219,0.6)"
+              fillColor="rgba(52,152,219,0.15)"
+            />
+          ) : null}
+          <Marker
+            coordinate={location}
+            draggable
+            onDragEnd={(event: MarkerDragStartEndEvent) => movePin(event.nativeEvent.coordinate)}
+          />
+        </MapView>
+      </View>
+      <View style={styles.hint}>
+        <Ionicons name={snappedTo ? 'magnet' : 'hand-left-outline'} size={14} color="#7f8c8d" />
+        <Text style={styles.hintText}>
+          {snapping
+            ? 'Checking for nearby roads and bridges...'
+            : snappedTo
+              ? `Snapped to ${snappedTo}`
+              : 'Drag the pin or tap the map to adjust the location'}
+        </Text>
+      </View>
+      {gpsFix && gpsFix.accuracy ? (
+        <Text style={styles.accuracyText}>GPS accuracy ±{Math.round(gpsFix.accuracy)} m</Text>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  mapContainer: {
+    height: 220,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginTop: 10,
+  },
+  map: {
+    flex: 1,
+  },
+  hint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  hintText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#7f8c8d',
+    flex: 1,
+  },
+  accuracyText: {
+    fontSize: 12,
+    color: '#bdc3c7',
+    marginTop: 4,
+  },
+});
+
+export default LocationPicker;
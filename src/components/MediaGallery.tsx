@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
+} from 'react-native';
+import { VideoView, useVideoPlayer } from 'expo-video';
+import { Ionicons } from '@expo/vector-icons';
+import { SubmittedMedia } from '../lib/myReports';
+
+interface MediaGalleryProps {
+  media: SubmittedMedia[];
+  height?: number;
+}
+
+// Players are created per slide so only videos the user swipes to are loaded
+const GalleryVideo: React.FC<{ url: string }> = ({ url }) => {
+  const player = useVideoPlayer(url);
+  return <VideoView player={player} style={styles.media} nativeControls contentFit="contain" />;
+};
+
+// Full-width swipeable gallery of a submitted report's photos and videos
+const MediaGallery: React.FC<MediaGalleryProps> = ({ media, height = 280 }) => {
+  const { width } = useWindowDimensions();
+  const [index, setIndex] = useState(0);
+
+  if (media.length === 0) {
+    return (
+      <View style={[styles.placeholder, { height: height / 2 }]}>
+        <Ionicons name="image-outline" size={40} color="#bdc3c7" />
+        <Text style={styles.placeholderText}>No photos or videos</Text>
+      </View>
+    );
+  }
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  return (
+    <View>
+      <FlatList
+        data={media}
+        keyExtractor={item => item.mediaId}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleScroll}
+        renderItem={({ item }) => (
+          <View style={[styles.slide, { width, height }]}>
+            {item.kind === 'video'
+              ? <GalleryVideo url={item.url} />
+              : <Image source={{ uri: item.url }} style={styles.media} resizeMode="contain" />}
+          </View>
+        )}
+      />
+      {media.length > 1 ? (
+        <View style={styles.counter}>
+          <Text style={styles.counterText}>{index + 1} / {media.length}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  slide: {
+    backgroundColor: '#000',
+  },
+  media: {
+    flex: 1,
+  },
+  counter: {
+    position: 'absolute',
+    right: 12,
+    bottom: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  counterText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  placeholder: {
+    backgroundColor: '#ecf0f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+});
+
+export default MediaGallery;
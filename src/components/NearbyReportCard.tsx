@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SubmittedReport } from '../lib/myReports';
+import { getIssueType } from '../lib/issueTypes';
+import { getSeverity } from '../lib/reports';
+import { distanceInMeters, formatDistance, LatLng } from '../lib/geo';
+
+interface NearbyReportCardProps {
+  report: SubmittedReport;
+  origin: LatLng | null;
+  onPress: () => void;
+}
+
+// Compact card for community feeds: cover, project, severity and distance
+const NearbyReportCard: React.FC<NearbyReportCardProps> = ({ report, origin, onPress }) => {
+  const issueType = getIssueType(report.issueType);
+  const severity = getSeverity(report.severity);
+  const cover = report.media[0];
+  const coverUrl = cover ? cover.thumbnailUrl || (cover.kind === 'photo' ? cover.url : null) : null;
+  const distance = origin && report.latitude !== null && report.longitude !== null
+    ? distanceInMeters(origin.latitude, origin.longitude, report.latitude, report.longitude)
+    : null;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress}>
+      {coverUrl ? (
+        <Image source={{ uri: coverUrl }} style={styles.cover} />
+      ) : (
+        <View style={[styles.cover, styles.coverPlaceholder, { backgroundColor: issueType.color }]}>
+          <Ionicons name={issueType.icon} size={24} color="#fff" />
+        </View>
+      )}
+      <View style={styles.body}>
+        <Text style={styles.title} numberOfLines={1}>
+          {report.projectName || 'Not linked to a project'}
+        </Text>
+        <Text style={styles.subtitle} numberOfLines={1}>
+          {issueType.name}{report.address ? ` · ${report.address}` : ''}
+        </Text>
+        <View style={styles.footer}>
+          <View style={[styles.severityBadge, { backgroundColor: severity.color }]}>
+            <Text style={styles.severityText}>{severity.name}</Text>
+          </View>
+          {distance !== null && (
+            <View style={styles.distance}>
+              <Ionicons name="navigate-outline" size={12} color="#7f8c8d" />
+              <Text style={styles.footerText}>{formatDistance(distance)}</Text>
+            </View>
+          )}
+          <Text style={styles.footerText}>{new Date(report.submittedAt).toLocaleDateString()}</Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  cover: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#ecf0f1',
+  },
+  coverPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+    marginLeft: 12,
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  severityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginRight: 10,
+  },
+  severityText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  distance: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  footerText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginLeft: 2,
+  },
+});
+
+export default NearbyReportCard;
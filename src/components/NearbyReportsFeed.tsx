@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NavigationProp, ParamListBase, useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { fetchNearbyReports, REPORTS_PAGE_SIZE, SubmittedReport } from '../lib/myReports';
+import { FeedOptions, feedRadii, feedSorts, loadFeedOptions, saveFeedOptions } from '../lib/nearbyFeed';
+import { formatDistance, LatLng } from '../lib/geo';
+import NearbyReportCard from './NearbyReportCard';
+
+interface NearbyReportsFeedProps {
+  // null while locating or when location permission was denied
+  origin: LatLng | null;
+  locating: boolean;
+}
+
+// Infinite list of approved reports around `origin`, with radius and sort
+// controls. Used by the Near You screen and the list mode of the map.
+const NearbyReportsFeed: React.FC<NearbyReportsFeedProps> = ({ origin, locating }) => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const [options, setOptions] = useState<FeedOptions | null>(null);
+  const [reports, setReports] = useState<SubmittedReport[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Responses to superseded queries are dropped
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    loadFeedOptions().then(setOptions);
+  }, []);
+
+  useEffect(() => {
+    if (origin && options) {
+      setLoading(true);
+      loadReports(origin, options);
+    }
+  }, [origin?.latitude, origin?.longitude, options]);
+
+  const loadReports = async (center: LatLng, current: FeedOptions) => {
+    const request = ++latestRequest.current;
+    try {
+      const firstPage = await fetchNearbyReports(0, center, current);
+      if (request !== latestRequest.current) {
+        return;
+      }
+      setReports(firstPage);
+      setPage(0);
+      setHasMore(firstPage.length === REPORTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading nearby reports:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!origin || !options || loading || refreshing || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    const request = latestRequest.current;
+    try {
+      const nextPage = await fetchNearbyReports(page + 1, origin, options);
+      if (request !== latestRequest.current) {
+        return;
+      }
+      // A report approved since the last refresh shifts the pages by one
+      setReports(current => [
+        ...current,
+        ...nextPage.filter(report => !current.some(existing => existing.reportId === report.reportId)),
+      ]);
+      setPage(page + 1);
+      setHasMore(nextPage.length === REPORTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more nearby reports:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const onRefresh = () => {
+    if (origin && options) {
+      setRefreshing(true);
+      loadReports(origin, options);
+    }
+  };
+
+  const updateOptions = (changes: Partial<FeedOptions>) => {
+    if (options) {
+      const next = { ...options, ...changes };
+      setOptions(next);
+      saveFeedOptions(next);
+    }
+  };
+
+  const renderControls = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.controls}>
+      {feedSorts.map(option => {
+        const active = options?.sort === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => updateOptions({ sort: option.id })}
+          >
+            <Ionicons name={option.icon} size={14} color={active ? '#fff' : '#7f8c8d'} />
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      <View style={styles.divider} />
+      {feedRadii.map(radius => {
+        const active = options?.radiusM === radius;
+        return (
+          <TouchableOpacity
+            key={radius}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => updateOptions({ radiusM: radius })}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{formatDistance(radius)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderEmptyState = () => (
+    locating || (origin && loading) ? (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    ) : !origin ? (
+      <View style={styles.emptyState}>
+        <Ionicons name="location-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.emptyStateTitle}>Location Needed</Text>
+        <Text style={styles.emptyStateText}>Allow location access to see reports around you.</Text>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Ionicons name="people-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.emptyStateTitle}>Nothing Reported Nearby</Text>
+        <Text style={styles.emptyStateText}>
+          No approved reports within {formatDistance(options?.radiusM ?? 0)}. Try a wider radius.
+        </Text>
+      </View>
+    )
+  );
+
+  return (
+    <FlatList
+      style={styles.list}
+      data={origin ? reports : []}
+      keyExtractor={(item) => item.reportId}
+      renderItem={({ item }) => (
+        <NearbyReportCard
+          report={item}
+          origin={origin}
+          onPress={() => navigation.navigate('ReportDetail', { reportId: item.reportId })}
+        />
+      )}
+      ListHeaderComponent={renderControls}
+      ListEmptyComponent={renderEmptyState}
+      ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#3498db" /> : null}
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    paddingHorizontal: 20,
+    flexGrow: 1,
+  },
+  controls: {
+    paddingVertical: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  chipText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  divider: {
+    width: 1,
+    backgroundColor: '#e1e8ed',
+    marginRight: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  footerLoader: {
+    marginVertical: 20,
+  },
+});
+
+export default NearbyReportsFeed;
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { AttributeDef, AttributeValue, AttributeValues } from '../lib/attributeDefs';
+
+interface ObservationFormProps {
+  defs: AttributeDef[];
+  values: AttributeValues;
+  onChange: (values: AttributeValues) => void;
+}
+
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Renders one input per attribute definition, chosen by its datatype.
+const ObservationForm: React.FC<ObservationFormProps> = ({ defs, values, onChange }) => {
+  const [datePickerKey, setDatePickerKey] = useState<string | null>(null);
+  // Raw text of number fields, so partial input like "2." is not reformatted
+  const [numberText, setNumberText] = useState<Record<string, string>>({});
+
+  const setValue = (key: string, value: AttributeValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const handleDateChange = (key: string) => (event: DateTimePickerEvent, date?: Date) => {
+    // Android shows a one-shot dialog; iOS keeps the inline picker open
+    if (Platform.OS === 'android') {
+      setDatePickerKey(null);
+    }
+    if (event.type === 'set' && date) {
+      setValue(key, toDateString(date));
+    }
+  };
+
+  const renderInput = (def: AttributeDef) => {
+    const value = values[def.key];
+
+    switch (def.datatype) {
+      case 'boolean':
+        return (
+          <Switch
+            value={value === true}
+            onValueChange={(checked) => setValue(def.key, checked)}
+            trackColor={{ true: '#3498db', false: '#e1e8ed' }}
+          />
+        );
+      case 'enum':
+        return (
+          <View style={styles.chips}>
+            {(def.allowed_values || []).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, value === option && styles.chipActive]}
+                onPress={() => setValue(def.key, value === option ? undefined : option)}
+              >
+                <Text style={[styles.chipText, value === option && styles.chipTextActive]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+      case 'number':
+        return (
+          <View style={styles.numberRow}>
+            <TextInput
+              style={[styles.textInput, styles.numberInput]}
+              keyboardType="decimal-pad"
+              placeholder="0"
+              value={numberText[def.key] ?? (value === undefined ? '' : String(value))}
+              onChangeText={(text) => {
+                setNumberText({ ...numberText, [def.key]: text });
+                const parsed = parseFloat(text.replace(',', '.'));
+                setValue(def.key, text.trim() === '' || isNaN(parsed) ? undefined : parsed);
+              }}
+            />
+            {def.units ? <Text style={styles.units}>{def.units}</Text> : null}
+          </View>
+        );
+      case 'date':
+        return (
+          <>
+            <TouchableOpacity style={styles.dateButton} onPress={() => setDatePickerKey(datePickerKey === def.key ? null : def.key)}>
+              <Ionicons name="calendar-outline" size={18} color="#3498db" />
+              <Text style={styles.dateText}>{typeof value === 'string' ? value : 'Select a date'}</Text>
+            </TouchableOpacity>
+            {datePickerKey === def.key && (
+              <DateTimePicker
+                value={typeof value === 'string' ? new Date(`${value}T00:00:00`) : new Date()}
+                mode="date"
+                maximumDate={new Date()}
+                onChange={handleDateChange(def.key)}
+              />
+            )}
+          </>
+        );
+      default:
+        return (
+          <TextInput
+            style={styles.textInput}
+            placeholder={def.label}
+            value={typeof value === 'string' ? value : ''}
+            onChangeText={(text) => setValue(def.key, text)}
+          />
+        );
+    }
+  };
+
+  return (
+    <View>
+      {defs.map((def) => (
+        <View key={def.key} style={styles.field}>
+          <View style={def.datatype === 'boolean' ? styles.inlineField : undefined}>
+            <View style={styles.labelContainer}>
+              <Text style={styles.label}>
+                {def.label}
+                {def.required ? <Text style={styles.required}> *</Text> : null}
+              </Text>
+              {def.help_text ? <Text style={styles.helpText}>{def.help_text}</Text> : null}
+            </View>
+            {renderInput(def)}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 18,
+  },
+  inlineField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  labelContainer: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#2c3e50',
+  },
+  required: {
+    color: '#e74c3c',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  numberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  numberInput: {
+    flex: 1,
+  },
+  units: {
+    marginLeft: 10,
+    fontSize: 15,
+    color: '#7f8c8d',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    borderRadius: 8,
+  },
+  dateText: {
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#2c3e50',
+  },
+});
+
+export default ObservationForm;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  OutboxItem,
+  OutboxStatus as OutboxItemStatus,
+  removeOutboxItem,
+  retryOutboxItem,
+  subscribeOutbox,
+} from '../lib/outbox';
+
+const statusStyles: Record<OutboxItemStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  pending: { label: 'Waiting to send', color: '#f39c12', icon: 'time-outline' },
+  sending: { label: 'Sending...', color: '#3498db', icon: 'cloud-upload-outline' },
+  failed: { label: 'Failed', color: '#e74c3c', icon: 'alert-circle-outline' },
+};
+
+const formatRetry = (nextAttemptAt: number) => {
+  const seconds = Math.max(0, Math.round((nextAttemptAt - Date.now()) / 1000));
+  if (seconds === 0) {
+    return 'retrying soon';
+  }
+  return seconds < 60 ? `retry in ${seconds}s` : `retry in ${Math.round(seconds / 60)}m`;
+};
+
+// Lists reports saved on the device that have not reached the server yet.
+// Renders nothing when the outbox is empty.
+const OutboxStatus: React.FC = () => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => subscribeOutbox(setItems), []);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const confirmDiscard = (item: OutboxItem) => {
+    Alert.alert(
+      'Discard Report',
+      'This report has not been sent yet. Discard it from this device?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => removeOutboxItem(item.report.reportId) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Outbox ({items.length})</Text>
+      {items.map((item) => {
+        const status = statusStyles[item.status];
+        return (
+          <View key={item.report.reportId} style={styles.item}>
+            <Ionicons name={status.icon} size={20} color={status.color} />
+            <View style={styles.itemText}>
+              <Text style={styles.itemDescription} numberOfLines={1}>
+                {item.report.text}
+              </Text>
+              <Text style={[styles.itemStatus, { color: status.color }]} numberOfLines={2}>
+                {status.label}
+                {item.status === 'pending' && item.attempts > 0 ? ` · ${formatRetry(item.nextAttemptAt)}` : ''}
+                {item.status !== 'sending' && item.lastError ? ` · ${item.lastError}` : ''}
+              </Text>
+            </View>
+            {item.status !== 'sending' && (
+              <>
+                <TouchableOpacity style={styles.itemButton} onPress={() => retryOutboxItem(item.report.reportId)}>
+                  <Ionicons name="refresh" size={20} color="#3498db" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.itemButton} onPress={() => confirmDiscard(item)}>
+                  <Ionicons name="trash-outline" size={20} color="#e74c3c" />
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 10,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  itemText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  itemDescription: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2c3e50',
+  },
+  itemStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  itemButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
+
+export default OutboxStatus;
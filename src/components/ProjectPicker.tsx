@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  DEFAULT_NEARBY_RADIUS_M,
+  fetchNearbyProjects,
+  getProjectTypeIcon,
+  NearbyProject,
+} from '../lib/projects';
+import { formatDistance } from '../lib/geo';
+
+interface ProjectPickerProps {
+  latitude: number | null;
+  longitude: number | null;
+  selectedProjectId: string | null;
+  onSelect: (project: NearbyProject | null) => void;
+}
+
+const WIDER_RADIUS_M = 2000;
+const MAX_VISIBLE = 8;
+
+// Ranked list of DPWH projects near the report location, plus a
+// "not listed" option that submits the report with its location only.
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ latitude, longitude, selectedProjectId, onSelect }) => {
+  const [projects, setProjects] = useState<NearbyProject[]>([]);
+  const [radius, setRadius] = useState(DEFAULT_NEARBY_RADIUS_M);
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (latitude === null || longitude === null) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchNearbyProjects(latitude, longitude, radius)
+      .then(result => {
+        if (!cancelled) {
+          setProjects(result);
+        }
+      })
+      .catch(err => {
+        console.error('Error loading nearby projects:', err);
+        if (!cancelled) {
+          setError(err.message);
+          setProjects([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude, radius]);
+
+  const visibleProjects = showAll ? projects : projects.slice(0, MAX_VISIBLE);
+
+  const renderOption = (
+    key: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    title: string,
+    subtitle: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity key={key} style={[styles.option, selected && styles.optionSelected]} onPress={onPress}>
+      <View style={[styles.optionIcon, selected && styles.optionIconSelected]}>
+        <Ionicons name={icon} size={18} color={selected ? '#fff' : '#3498db'} />
+      </View>
+      <View style={styles.optionText}>
+        <Text style={styles.optionTitle} numberOfLines={1}>{title}</Text>
+        <Text style={styles.optionSubtitle} numberOfLines={1}>{subtitle}</Text>
+      </View>
+      {selected && <Ionicons name="checkmark-circle" size={22} color="#3498db" />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {latitude === null || longitude === null ? (
+        <Text style={styles.message}>Waiting for your location...</Text>
+      ) : loading ? (
+        <ActivityIndicator style={styles.loading} color="#3498db" />
+      ) : error ? (
+        <Text style={styles.message}>Could not load nearby projects: {error}</Text>
+      ) : projects.length === 0 ? (
+        <Text style={styles.message}>No DPWH projects within {formatDistance(radius)}.</Text>
+      ) : (
+        visibleProjects.map(project =>
+          renderOption(
+            project.project_id,
+            getProjectTypeIcon(project.type),
+            project.name,
+            `${formatDistance(project.distance_m)} away · ${project.type}`,
+            selectedProjectId === project.project_id,
+            () => onSelect(project)
+          )
+        )
+      )}
+
+      {!loading && projects.length > MAX_VISIBLE && !showAll && (
+        <TouchableOpacity style={styles.linkButton} onPress={() => setShowAll(true)}>
+          <Text style={styles.linkText}>Show all {projects.length}</Text>
+        </TouchableOpacity>
+      )}
+      {!loading && !error && radius < WIDER_RADIUS_M && latitude !== null && (
+        <TouchableOpacity style={styles.linkButton} onPress={() => setRadius(WIDER_RADIUS_M)}>
+          <Text style={styles.linkText}>Search within {formatDistance(WIDER_RADIUS_M)}</Text>
+        </TouchableOpacity>
+      )}
+
+      {renderOption(
+        'none',
+        'navigate',
+        'Not listed / just use my location',
+        'The report will not be linked to a project',
+        selectedProjectId === null,
+        () => onSelect(null)
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: '#f8f9fa',
+  },
+  optionSelected: {
+    borderColor: '#3498db',
+    backgroundColor: '#ebf3fd',
+  },
+  optionIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebf3fd',
+    marginRight: 10,
+  },
+  optionIconSelected: {
+    backgroundColor: '#3498db',
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  message: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 10,
+  },
+  loading: {
+    marginVertical: 15,
+  },
+  linkButton: {
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#3498db',
+    fontWeight: '600',
+  },
+});
+
+export default ProjectPicker;
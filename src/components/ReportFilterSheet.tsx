@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { emptyReportFilters, ReportFilters } from '../lib/reportFilters';
+import { reportStatuses } from '../lib/reportStatus';
+import { issueTypes } from '../lib/issueTypes';
+import { severities } from '../lib/reports';
+import { conditionRatings } from '../lib/conditions';
+
+interface ReportFilterSheetProps {
+  visible: boolean;
+  filters: ReportFilters;
+  projects: { projectId: string; name: string }[];
+  onApply: (filters: ReportFilters) => void;
+  onClose: () => void;
+}
+
+interface ChipOption {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+type DateField = 'fromDate' | 'toDate';
+
+const toggle = <T extends string>(list: T[], id: T) =>
+  list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Full-screen filter editor for My Reports. Changes are kept in a draft until
+// "Apply" so closing the sheet discards them.
+const ReportFilterSheet: React.FC<ReportFilterSheetProps> = ({ visible, filters, projects, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ReportFilters>(filters);
+  const [dateField, setDateField] = useState<DateField | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setDateField(null);
+    }
+  }, [visible]);
+
+  const update = (changes: Partial<ReportFilters>) => setDraft({ ...draft, ...changes });
+
+  const handleDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    // Android shows a one-shot dialog; iOS keeps the inline picker open
+    if (Platform.OS === 'android') {
+      setDateField(null);
+    }
+    if (event.type === 'set' && date && dateField) {
+      update({ [dateField]: toDateString(date) });
+    }
+  };
+
+  const renderChips = <T extends string>(options: ChipOption[], selected: T[], onToggle: (id: T) => void) => (
+    <View style={styles.chips}>
+      {options.map(option => {
+        const active = selected.includes(option.id as T);
+        const color = option.color || '#3498db';
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, active && { backgroundColor: color, borderColor: color }]}
+            onPress={() => onToggle(option.id as T)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderDateButton = (field: DateField, label: string) => (
+    <TouchableOpacity style={styles.dateButton} onPress={() => setDateField(dateField === field ? null : field)}>
+      <Ionicons name="calendar-outline" size={18} color="#3498db" />
+      <Text style={styles.dateText}>{draft[field] || label}</Text>
+      {draft[field] ? (
+        <TouchableOpacity onPress={() => update({ [field]: null })}>
+          <Ionicons name="close-circle" size={18} color="#bdc3c7" />
+        </TouchableOpacity>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={26} color="#2c3e50" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Filter Reports</Text>
+          <TouchableOpacity onPress={() => setDraft({ ...emptyReportFilters, sort: draft.sort })}>
+            <Text style={styles.resetText}>Reset</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.body}>
+          <Text style={styles.sectionTitle}>Status</Text>
+          {renderChips(reportStatuses, draft.statuses, id => update({ statuses: toggle(draft.statuses, id) }))}
+
+          <Text style={styles.sectionTitle}>Issue Type</Text>
+          {renderChips(issueTypes, draft.issueTypes, id => update({ issueTypes: toggle(draft.issueTypes, id) }))}
+
+          <Text style={styles.sectionTitle}>Severity</Text>
+          {renderChips(severities, draft.severities, id => update({ severities: toggle(draft.severities, id) }))}
+
+          <Text style={styles.sectionTitle}>Observed Condition</Text>
+          {renderChips(conditionRatings, draft.conditions, id => update({ conditions: toggle(draft.conditions, id) }))}
+
+          <Text style={styles.sectionTitle}>Submitted</Text>
+          <View style={styles.dateRow}>
+            {renderDateButton('fromDate', 'From')}
+            {renderDateButton('toDate', 'To')}
+          </View>
+          {dateField && (
+            <DateTimePicker
+              value={draft[dateField] ? new Date(`${draft[dateField]}T00:00:00`) : new Date()}
+              mode="date"
+              maximumDate={new Date()}
+              onChange={handleDateChange}
+            />
+          )}
+
+          <Text style={styles.sectionTitle}>Project</Text>
+          {projects.length === 0 ? (
+            <Text style={styles.emptyText}>None of your reports are linked to a project yet</Text>
+          ) : (
+            renderChips(
+              projects.map(project => ({ id: project.projectId, name: project.name })),
+              draft.projectId ? [draft.projectId] : [],
+              id => update({ projectId: draft.projectId === id ? null : id })
+            )
+          )}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.applyButton} onPress={() => onApply(draft)}>
+          <Text style={styles.applyButtonText}>Show Reports</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e1e8ed',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  resetText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  dateRow: {
+    flexDirection: 'row',
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+  },
+  dateText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#bdc3c7',
+  },
+  applyButton: {
+    backgroundColor: '#3498db',
+    margin: 20,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ReportFilterSheet;
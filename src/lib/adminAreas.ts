@@ -0,0 +1,200 @@
+import { Platform } from 'react-native';
+import { LatLng, polygonContains } from './geo';
+import { loadPsgcIndex, psgcShards } from './psgcShards';
+
+// PSGC levels, top to bottom. NCR cities sit directly under their region.
+export type AdminLevel = 'region' | 'province' | 'city' | 'barangay';
+
+export interface AdminArea {
+  code: string;
+  name: string;
+}
+
+export type AdminAddress = Record<AdminLevel, AdminArea | null>;
+
+// Simplified PSGC boundaries bundled with the app, as GeoJSON; see
+// database-schema-additions.md for the feature properties
+export interface BoundaryCollection {
+  features: {
+    properties: { code: string; name: string; level: AdminLevel; parent: string | null; shard?: boolean } | null;
+    geometry: { type: string; coordinates: any } | null;
+  }[];
+}
+
+// Shards are the cities and barangays of one province (or of a region
+// without provinces). Only the most recently used ones stay parsed.
+const MAX_LOADED_SHARDS = 3;
+
+interface IndexedArea extends AdminArea {
+  level: AdminLevel;
+  // [west, south, east, north], checked before the polygon test
+  bbox: [number, number, number, number];
+  geometry: any;
+  // Has a shard with its cities; they join children only while it is loaded
+  shard: boolean;
+  children: IndexedArea[];
+}
+
+interface AdminAreaIndex {
+  roots: IndexedArea[];
+}
+
+const boundingBox = (geometry: any): [number, number, number, number] => {
+  const polygons: number[][][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const box: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  polygons.forEach(polygon => polygon[0].forEach(([x, y]) => {
+    box[0] = Math.min(box[0], x);
+    box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x);
+    box[3] = Math.max(box[3], y);
+  }));
+  return box;
+};
+
+const buildIndex = (collection: BoundaryCollection): AdminAreaIndex => {
+  const areas = new Map<string, IndexedArea>();
+  const parents = new Map<string, string | null>();
+
+  (collection.features || []).forEach(feature => {
+    const { properties, geometry } = feature;
+    if (!properties?.code || !geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) {
+      return;
+    }
+    const { code, name, level, parent, shard } = properties;
+    areas.set(code, {
+      code,
+      name,
+      level,
+      bbox: boundingBox(geometry),
+      geometry,
+      shard: shard === true,
+      children: [],
+    });
+    parents.set(code, parent ?? null);
+  });
+
+  const roots: IndexedArea[] = [];
+  areas.forEach(area => {
+    const parent = areas.get(parents.get(area.code) ?? '');
+    (parent ? parent.children : roots).push(area);
+  });
+  return { roots };
+};
+
+// undefined until the first lookup; null when there is no dataset
+let index: AdminAreaIndex | null | undefined;
+
+// Areas whose shard is parsed, least recently used first, with the children
+// the shard added. A region keeps its provinces from the index next to the
+// cities its shard adds (e.g. Isabela City in Region IX).
+const loadedShards = new Map<string, { area: IndexedArea; added: IndexedArea[] }>();
+
+// Parses the bundled region and province boundaries on first use. Web pages
+// skip it: they have no offline need that justifies holding the dataset.
+export const loadAdminAreas = (): AdminAreaIndex | null => {
+  if (index !== undefined) {
+    return index;
+  }
+  if (Platform.OS === 'web') {
+    index = null;
+    return index;
+  }
+  try {
+    const collection = loadPsgcIndex();
+    if (!collection) {
+      console.warn('⚠️ No administrative boundaries bundled; run `npm run psgc:export` before building');
+    }
+    index = collection ? buildIndex(collection) : null;
+  } catch (error) {
+    console.warn('⚠️ Administrative boundaries not available:', error);
+    index = null;
+  }
+  return index;
+};
+
+// Attaches the cities and barangays of `area` from its shard, dropping the
+// least recently used shard once too many are parsed
+const loadShard = (area: IndexedArea) => {
+  const loaded = loadedShards.get(area.code);
+  if (loaded) {
+    loadedShards.delete(area.code);
+    loadedShards.set(area.code, loaded);
+    return;
+  }
+  const loader = psgcShards[area.code];
+  if (!loader) {
+    return;
+  }
+  let added: IndexedArea[];
+  try {
+    added = buildIndex(loader()).roots;
+  } catch (error) {
+    console.warn(`⚠️ Boundaries of ${area.name} not available:`, error);
+    return;
+  }
+  area.children.push(...added);
+  loadedShards.set(area.code, { area, added });
+  while (loadedShards.size > MAX_LOADED_SHARDS) {
+    const [oldestCode, oldest] = loadedShards.entries().next().value!;
+    const evicted = new Set(oldest.added);
+    oldest.area.children = oldest.area.children.filter(child => !evicted.has(child));
+    loadedShards.delete(oldestCode);
+  }
+};
+
+const contains = (area: IndexedArea, point: LatLng) =>
+  point.longitude >= area.bbox[0] &&
+  point.latitude >= area.bbox[1] &&
+  point.longitude <= area.bbox[2] &&
+  point.latitude <= area.bbox[3] &&
+  polygonContains(area.geometry, point);
+
+// Walks down the hierarchy, only testing the children of the area found on
+// the level above. Stops at the deepest level that contains the point.
+const lookup = (index: AdminAreaIndex, point: LatLng): AdminAddress | null => {
+  const address: AdminAddress = { region: null, province: null, city: null, barangay: null };
+  let candidates = index.roots;
+  let found = false;
+
+  for (;;) {
+    const match = candidates.find(area => contains(area, point));
+    if (!match) {
+      break;
+    }
+    address[match.level] = { code: match.code, name: match.name };
+    found = true;
+    if (match.shard) {
+      loadShard(match);
+    }
+    candidates = match.children;
+  }
+
+  return found ? address : null;
+};
+
+// "Barangay, City/Municipality, Province". NCR has no province, so the
+// region is used instead.
+export const formatAddress = (address: AdminAddress | null): string | null => {
+  if (!address) {
+    return null;
+  }
+  const parts = [address.barangay, address.city, address.province || address.region]
+    .filter((area): area is AdminArea => area !== null)
+    .map(area => area.name);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+// False when the build has no boundary data (or on web), so callers can say
+// why there is no address rather than leaving it blank
+export const adminAreasAvailable = (): boolean => loadAdminAreas() !== null;
+
+export const reverseGeocode = async (point: LatLng): Promise<AdminAddress | null> => {
+  const loaded = loadAdminAreas();
+  return loaded ? lookup(loaded, point) : null;
+};
+
+// Formatted address lookup for labelling many points at once
+export const getAddressResolver = async (): Promise<(point: LatLng) => string | null> => {
+  const loaded = loadAdminAreas();
+  return point => (loaded ? formatAddress(lookup(loaded, point)) : null);
+};
@@ -0,0 +1,78 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabase } from './supabase';
+
+export type AttributeDatatype = 'text' | 'number' | 'boolean' | 'date' | 'enum' | 'json';
+
+// Row of public.attribute_defs
+export interface AttributeDef {
+  key: string;
+  label: string;
+  scope: 'project' | 'report';
+  datatype: AttributeDatatype;
+  allowed_values: string[] | null;
+  units: string | null;
+  required: boolean;
+  help_text: string | null;
+}
+
+export type AttributeValue = string | number | boolean;
+export type AttributeValues = Record<string, AttributeValue>;
+
+const CACHE_KEY = 'attribute_defs:report';
+
+// Datatypes the report form knows how to render; others are skipped
+const SUPPORTED_DATATYPES: AttributeDatatype[] = ['text', 'number', 'boolean', 'date', 'enum'];
+
+// Loads the report-scope survey questions. The last successful response is
+// cached so the form still works when the device is offline.
+export const loadReportAttributeDefs = async (): Promise<AttributeDef[]> => {
+  const supabase = getSupabase();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('attribute_defs')
+      .select('key, label, scope, datatype, allowed_values, units, required, help_text')
+      .eq('scope', 'report')
+      .order('created_at');
+
+    if (!error && data) {
+      const defs = (data as AttributeDef[]).filter(def => SUPPORTED_DATATYPES.includes(def.datatype));
+      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(defs));
+      return defs;
+    }
+    console.warn('⚠️ Could not load attribute definitions, using cache:', error);
+  }
+
+  const cached = await AsyncStorage.getItem(CACHE_KEY);
+  return cached ? JSON.parse(cached) : [];
+};
+
+// Required booleans always have an answer: a switch cannot be "unanswered"
+export const initialAttributeValues = (defs: AttributeDef[]): AttributeValues =>
+  defs.reduce<AttributeValues>((values, def) => {
+    if (def.datatype === 'boolean' && def.required) {
+      values[def.key] = false;
+    }
+    return values;
+  }, {});
+
+// Returns the labels of required fields that have no answer yet
+export const missingRequiredAttributes = (defs: AttributeDef[], values: AttributeValues): string[] =>
+  defs
+    .filter(def => def.required)
+    .filter(def => {
+      const value = values[def.key];
+      return value === undefined || (typeof value === 'string' && value.trim() === '');
+    })
+    .map(def => def.label);
+
+// Drops blank answers so observed_meta only holds what the user filled in
+export const toObservedMeta = (defs: AttributeDef[], values: AttributeValues): AttributeValues =>
+  defs.reduce<AttributeValues>((meta, def) => {
+    const value = values[def.key];
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      return meta;
+    }
+    meta[def.key] = typeof value === 'string' ? value.trim() : value;
+    return meta;
+  }, {});
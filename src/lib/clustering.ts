@@ -0,0 +1,96 @@
+import type { Region } from 'react-native-maps';
+import { ConditionRating, featureCondition, getConditionRank } from './conditions';
+import type { ProjectGeometry } from './projects';
+import type { ProjectFeatureProperties } from './projectTiles';
+
+// Cells across the visible width; each cell becomes at most one cluster
+const CLUSTER_GRID_COLUMNS = 6;
+
+// Street level and closer: every point is drawn on its own
+const MAX_CLUSTER_ZOOM = 15;
+
+export interface PointCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+  // Worst condition among the members (see featureCondition); 'unknown' when none has one
+  worstCondition: ConditionRating;
+  members: PointFeature[];
+}
+
+export interface ClusteredPoints<T> {
+  clusters: PointCluster[];
+  // Points alone in their cell, drawn as regular markers
+  singles: T[];
+}
+
+// Callers pass Point features only; see isValidPoint in GeoJSONLayer
+interface PointFeature {
+  geometry: ProjectGeometry;
+  properties: Partial<ProjectFeatureProperties>;
+}
+
+const worseOf = (a: ConditionRating, b: ConditionRating): ConditionRating =>
+  (getConditionRank(b) ?? 0) > (getConditionRank(a) ?? 0) ? b : a;
+
+// Grid clustering of Point features. The grid is snapped to whole zoom levels
+// and anchored to lat/lng, so clusters stay put while panning and only
+// regroup when the zoom level changes.
+export const clusterPoints = <T extends PointFeature>(points: T[], region: Region): ClusteredPoints<T> => {
+  const zoom = Math.round(Math.log2(360 / region.longitudeDelta));
+  if (zoom >= MAX_CLUSTER_ZOOM) {
+    return { clusters: [], singles: points };
+  }
+  const cellSize = 360 / 2 ** zoom / CLUSTER_GRID_COLUMNS;
+
+  const cells = new Map<string, T[]>();
+  points.forEach(point => {
+    const [longitude, latitude] = point.geometry.coordinates as number[];
+    const key = `${zoom}/${Math.floor(longitude / cellSize)}/${Math.floor(latitude / cellSize)}`;
+    const members = cells.get(key);
+    if (members) {
+      members.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  });
+
+  const clusters: PointCluster[] = [];
+  const singles: T[] = [];
+  cells.forEach((members, key) => {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      return;
+    }
+    const cluster: PointCluster = {
+      id: key,
+      latitude: 0,
+      longitude: 0,
+      count: members.length,
+      minLatitude: Infinity,
+      minLongitude: Infinity,
+      maxLatitude: -Infinity,
+      maxLongitude: -Infinity,
+      worstCondition: 'unknown',
+      members,
+    };
+    members.forEach(member => {
+      const [longitude, latitude] = member.geometry.coordinates as number[];
+      cluster.latitude += latitude / members.length;
+      cluster.longitude += longitude / members.length;
+      cluster.minLatitude = Math.min(cluster.minLatitude, latitude);
+      cluster.minLongitude = Math.min(cluster.minLongitude, longitude);
+      cluster.maxLatitude = Math.max(cluster.maxLatitude, latitude);
+      cluster.maxLongitude = Math.max(cluster.maxLongitude, longitude);
+      cluster.worstCondition = worseOf(cluster.worstCondition, featureCondition(member.properties));
+    });
+    clusters.push(cluster);
+  });
+
+  return { clusters, singles };
+};
@@ -0,0 +1,135 @@
+import { requireSupabase } from './supabase';
+import { ConditionRating, getConditionRank } from './conditions';
+import { ProjectType } from './projects';
+
+export const DISCREPANCIES_PAGE_SIZE = 20;
+
+// Mirrors v_condition_discrepancies: only observations from the last 180
+// days and after the latest official inspection count as recent
+export const RECENT_OBSERVATION_DAYS = 180;
+
+// A project whose recent approved observations disagree with the official
+// rating by at least one step on average
+export interface ConditionDiscrepancy {
+  projectId: string;
+  name: string;
+  type: ProjectType;
+  conditionOfficial: ConditionRating;
+  lastInspectedAt: string | null;
+  // Most common recent observation
+  observedCondition: ConditionRating;
+  observationCount: number;
+  // Mean steps between observed and official; positive when citizens see it worse
+  meanGap: number;
+  lastObservedAt: string;
+}
+
+export interface ConditionObservation {
+  reportId: string;
+  observedCondition: ConditionRating;
+  observedAt: string;
+}
+
+export interface ProjectCondition {
+  projectId: string;
+  name: string;
+  type: ProjectType;
+  conditionOfficial: ConditionRating;
+  lastInspectedAt: string | null;
+  // Oldest first
+  observations: ConditionObservation[];
+}
+
+// Observations that still say something about the official rating
+export const getRecentObservations = (project: ProjectCondition): ConditionObservation[] => {
+  const windowStart = Date.now() - RECENT_OBSERVATION_DAYS * 24 * 60 * 60 * 1000;
+  const since = Math.max(windowStart, project.lastInspectedAt ? new Date(project.lastInspectedAt).getTime() : 0);
+  return project.observations.filter(observation =>
+    new Date(observation.observedAt).getTime() >= since && getConditionRank(observation.observedCondition) !== null
+  );
+};
+
+// Mean gap of the recent observations, or null when there is nothing to compare
+export const getRecentGap = (project: ProjectCondition): number | null => {
+  const officialRank = getConditionRank(project.conditionOfficial);
+  const recent = getRecentObservations(project);
+  if (officialRank === null || recent.length === 0) {
+    return null;
+  }
+  const total = recent.reduce((sum, observation) => sum + getConditionRank(observation.observedCondition)! - officialRank, 0);
+  return total / recent.length;
+};
+
+// One page of projects with disagreeing observations, largest and freshest
+// disagreement first
+export const fetchConditionDiscrepancies = async (page: number): Promise<ConditionDiscrepancy[]> => {
+  const supabase = requireSupabase();
+  const from = page * DISCREPANCIES_PAGE_SIZE;
+
+  const { data, error } = await supabase
+    .from('v_condition_discrepancies')
+    .select('project_id, name, type, condition_official, last_inspected_at, observed_condition, observation_count, mean_gap, last_observed_at')
+    .order('disagreement_score', { ascending: false })
+    .order('last_observed_at', { ascending: false })
+    .range(from, from + DISCREPANCIES_PAGE_SIZE - 1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(row => ({
+    projectId: row.project_id,
+    name: row.name,
+    type: row.type,
+    conditionOfficial: row.condition_official,
+    lastInspectedAt: row.last_inspected_at,
+    observedCondition: row.observed_condition,
+    observationCount: Number(row.observation_count),
+    meanGap: Number(row.mean_gap),
+    lastObservedAt: row.last_observed_at,
+  }));
+};
+
+// Official rating of a project next to all of its approved observations.
+// Returns null when the project does not exist.
+export const fetchProjectCondition = async (projectId: string): Promise<ProjectCondition | null> => {
+  const supabase = requireSupabase();
+
+  const [projectResult, observationsResult] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('project_id, name, type, condition_official, last_inspected_at')
+      .eq('project_id', projectId)
+      .maybeSingle(),
+    supabase
+      .from('v_condition_comparison')
+      .select('report_id, observed_condition, observed_at')
+      .eq('project_id', projectId)
+      .neq('observed_condition', 'unknown')
+      .order('observed_at', { ascending: true }),
+  ]);
+
+  if (projectResult.error) {
+    throw new Error(projectResult.error.message);
+  }
+  if (observationsResult.error) {
+    throw new Error(observationsResult.error.message);
+  }
+  const project = projectResult.data;
+  if (!project) {
+    return null;
+  }
+
+  return {
+    projectId: project.project_id,
+    name: project.name,
+    type: project.type,
+    conditionOfficial: project.condition_official,
+    lastInspectedAt: project.last_inspected_at,
+    observations: (observationsResult.data || []).map(row => ({
+      reportId: row.report_id,
+      observedCondition: row.observed_condition,
+      observedAt: row.observed_at,
+    })),
+  };
+};
@@ -0,0 +1,83 @@
+import type { ProjectFeatureProperties } from './projectTiles';
+
+// Mirrors the condition_rating enum
+export type ConditionRating = 'unknown' | 'good' | 'fair' | 'poor' | 'failed';
+
+export interface ConditionOption {
+  id: ConditionRating;
+  name: string;
+  color: string;
+}
+
+// Ordered from best to worst; 'unknown' is the database default and is not offered in forms
+export const conditionRatings: ConditionOption[] = [
+  { id: 'good', name: 'Good', color: '#2ecc71' },
+  { id: 'fair', name: 'Fair', color: '#f1c40f' },
+  { id: 'poor', name: 'Poor', color: '#e67e22' },
+  { id: 'failed', name: 'Failed', color: '#e74c3c' },
+];
+
+export const unknownCondition: ConditionOption = { id: 'unknown', name: 'Unknown', color: '#95a5a6' };
+
+export const getCondition = (rating?: string | null): ConditionOption =>
+  conditionRatings.find(option => option.id === rating) || unknownCondition;
+
+// 1 for good through 4 for failed, null for unknown
+export const getConditionRank = (rating: ConditionRating): number | null => {
+  const index = conditionRatings.findIndex(option => option.id === rating);
+  return index === -1 ? null : index + 1;
+};
+
+// Free-text CONDITION values from the DPWH inventory ("Good", "Poor", "Bad", ...)
+export const parseDpwhCondition = (value: unknown): ConditionRating => {
+  const text = typeof value === 'string' ? value.toLowerCase() : '';
+  if (text.includes('good')) {
+    return 'good';
+  }
+  if (text.includes('fair')) {
+    return 'fair';
+  }
+  if (text.includes('poor')) {
+    return 'poor';
+  }
+  if (text.includes('bad') || text.includes('fail') || text.includes('critical')) {
+    return 'failed';
+  }
+  return 'unknown';
+};
+
+// Condition of a DPWH map feature: the official rating, or the inventory's
+// CONDITION text when there is none
+export const featureCondition = (properties: Partial<ProjectFeatureProperties>): ConditionRating =>
+  properties.condition_official && properties.condition_official !== 'unknown'
+    ? properties.condition_official
+    : parseDpwhCondition(properties.CONDITION);
+
+export interface ChecklistOption {
+  id: string;
+  name: string;
+}
+
+// Values stored in reports.observed_materials
+export const materialOptions: ChecklistOption[] = [
+  { id: 'asphalt', name: 'Asphalt' },
+  { id: 'concrete', name: 'Concrete' },
+  { id: 'steel', name: 'Steel' },
+  { id: 'timber', name: 'Timber' },
+];
+
+// Values stored in reports.observed_hazards
+export const hazardOptions: ChecklistOption[] = [
+  { id: 'open_trench', name: 'Open trench' },
+  { id: 'missing_railing', name: 'Missing railing' },
+  { id: 'exposed_rebar', name: 'Exposed rebar' },
+  { id: 'cracked_deck', name: 'Cracked deck or slab' },
+  { id: 'erosion_scour', name: 'Erosion or scour' },
+  { id: 'flooding', name: 'Flooding' },
+  { id: 'no_signage', name: 'No warning signs' },
+  { id: 'no_lighting', name: 'No lighting' },
+  { id: 'debris', name: 'Debris on road' },
+];
+
+export const getChecklistName = (options: ChecklistOption[], id: string) =>
+  options.find(option => option.id === id)?.name || id;
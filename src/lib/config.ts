@@ -0,0 +1,19 @@
+import Constants from 'expo-constants';
+
+// Reporting limits can be tuned per build through `expo.extra.reporting` in app.json
+const reporting = Constants.expoConfig?.extra?.reporting ?? {};
+
+// Limits for media attached to a single report
+export const MAX_MEDIA_PER_REPORT: number = reporting.maxMediaPerReport ?? 10;
+export const MAX_VIDEO_DURATION_SECONDS: number = reporting.maxVideoDurationSeconds ?? 30;
+
+// Gallery photos older than this, or taken farther than this from the device,
+// trigger a warning before their metadata is used for the report
+export const MAX_PHOTO_AGE_HOURS: number = reporting.maxPhotoAgeHours ?? 72;
+export const MAX_EXIF_DISTANCE_M: number = reporting.maxExifDistanceMeters ?? 1000;
+
+// Photos are downscaled to this longest side and re-encoded to fit the byte
+// budget before upload, to keep mobile data use low
+export const IMAGE_MAX_DIMENSION: number = reporting.imageMaxDimension ?? 1600;
+export const IMAGE_BYTE_BUDGET: number = reporting.imageByteBudget ?? 400 * 1024;
+export const THUMBNAIL_MAX_DIMENSION: number = reporting.thumbnailMaxDimension ?? 320;
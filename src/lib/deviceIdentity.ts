@@ -0,0 +1,58 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { createId } from './reports';
+
+// Anonymous per-install identity sent as device_pid on reports, subscriptions
+// and flags. It is never tied to an account and can be reset by the user.
+const DEVICE_PID_KEY = 'device_pid';
+
+// Public RLS only exposes approved reports. Rows whose device_pid matches
+// this header are readable too, so a device can follow its own submissions.
+// The server never returns device_pid, so the value works as a secret.
+export const DEVICE_PID_HEADER = 'x-device-pid';
+
+let devicePid: Promise<string> | null = null;
+
+// SecureStore is not available on web, where local storage is the best we have
+const readStoredPid = (): Promise<string | null> =>
+  Platform.OS === 'web'
+    ? AsyncStorage.getItem(DEVICE_PID_KEY)
+    : SecureStore.getItemAsync(DEVICE_PID_KEY, {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      });
+
+const storePid = (value: string): Promise<void> =>
+  Platform.OS === 'web'
+    ? AsyncStorage.setItem(DEVICE_PID_KEY, value)
+    : SecureStore.setItemAsync(DEVICE_PID_KEY, value, {
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      });
+
+// Returns the device identity, creating it on first launch.
+export const getDevicePid = (): Promise<string> => {
+  if (!devicePid) {
+    devicePid = (async () => {
+      const stored = await readStoredPid();
+      if (stored) {
+        return stored;
+      }
+      const created = createId();
+      await storePid(created);
+      return created;
+    })().catch(error => {
+      devicePid = null;
+      throw error;
+    });
+  }
+  return devicePid;
+};
+
+// Replaces the device identity. Reports sent under the previous identity will
+// no longer show up as "my reports" on this device.
+export const resetDevicePid = async (): Promise<string> => {
+  const created = createId();
+  await storePid(created);
+  devicePid = Promise.resolve(created);
+  return created;
+};
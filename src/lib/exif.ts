@@ -0,0 +1,105 @@
+// Helpers for the EXIF dictionary returned by expo-image-picker with `exif: true`.
+// iOS nests GPS and capture data under '{GPS}' and '{Exif}', Android returns
+// flat tags, and coordinates may be decimal degrees or "deg/1,min/1,sec/100"
+// rationals depending on the device.
+
+import { Platform } from 'react-native';
+import * as MediaLibrary from 'expo-media-library';
+
+type ExifData = Record<string, any>;
+
+export interface ExifLocation {
+  latitude: number;
+  longitude: number;
+}
+
+const parseRational = (value: string) => {
+  const [numerator, denominator] = value.split('/').map(Number);
+  return denominator ? numerator / denominator : numerator;
+};
+
+const parseCoordinate = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const [degrees = 0, minutes = 0, seconds = 0] = value.map(Number);
+    return degrees + minutes / 60 + seconds / 3600;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parts = value.split(',').map(part => parseRational(part.trim()));
+    if (parts.some(isNaN)) {
+      return null;
+    }
+    const [degrees = 0, minutes = 0, seconds = 0] = parts;
+    return degrees + minutes / 60 + seconds / 3600;
+  }
+  return null;
+};
+
+export const readExifLocation = (exif?: ExifData | null): ExifLocation | null => {
+  if (!exif) {
+    return null;
+  }
+
+  const gps = exif['{GPS}'];
+  const rawLatitude = gps ? gps.Latitude : exif.GPSLatitude;
+  const rawLongitude = gps ? gps.Longitude : exif.GPSLongitude;
+  const latitudeRef = gps ? gps.LatitudeRef : exif.GPSLatitudeRef;
+  const longitudeRef = gps ? gps.LongitudeRef : exif.GPSLongitudeRef;
+
+  let latitude = parseCoordinate(rawLatitude);
+  let longitude = parseCoordinate(rawLongitude);
+  if (latitude === null || longitude === null) {
+    return null;
+  }
+
+  if (latitudeRef === 'S' && latitude > 0) {
+    latitude = -latitude;
+  }
+  if (longitudeRef === 'W' && longitude > 0) {
+    longitude = -longitude;
+  }
+
+  // Cameras without a fix sometimes write 0,0
+  if ((latitude === 0 && longitude === 0) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  return { latitude, longitude };
+};
+
+// DateTimeOriginal is "YYYY:MM:DD HH:MM:SS" in the camera's local time
+export const readExifTimestamp = (exif?: ExifData | null): Date | null => {
+  if (!exif) {
+    return null;
+  }
+
+  const raw: unknown = exif['{Exif}']?.DateTimeOriginal ?? exif.DateTimeOriginal ?? exif.DateTime;
+  if (typeof raw !== 'string') {
+    return null;
+  }
+
+  const match = raw.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Android 10+ removes the GPS tags of gallery files unless the app holds
+// ACCESS_MEDIA_LOCATION, which expo-media-library requests along with read
+// access. A refusal is fine: picked photos then come without a location.
+export const requestMediaLocationAccess = async (): Promise<void> => {
+  if (Platform.OS !== 'android') {
+    return;
+  }
+  try {
+    await MediaLibrary.requestPermissionsAsync(false, ['photo', 'video']);
+  } catch (error) {
+    console.warn('⚠️ Could not request media location access:', error);
+  }
+};
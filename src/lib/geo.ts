@@ -0,0 +1,105 @@
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// Great-circle distance between two coordinates in meters
+export const distanceInMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// GeoJSON coordinate lists for every line (or point) of a geometry
+const coordinateRuns = (geometry: any): number[][][] => {
+  if (!geometry || !geometry.coordinates) {
+    return [];
+  }
+  switch (geometry.type) {
+    case 'Point':
+      return [[geometry.coordinates]];
+    case 'MultiPoint':
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat();
+    default:
+      return [];
+  }
+};
+
+// Closest point of a GeoJSON geometry to `point`. Uses a local equirectangular
+// projection, which is accurate enough at the tens-of-meters scale of snapping.
+export const nearestPointOnGeometry = (geometry: any, point: LatLng): LatLng | null => {
+  const scale = Math.cos(point.latitude * Math.PI / 180);
+  const px = point.longitude * scale;
+  const py = point.latitude;
+
+  let best: LatLng | null = null;
+  let bestDistance = Infinity;
+
+  const consider = (x: number, y: number) => {
+    const distance = (x - px) ** 2 + (y - py) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { latitude: y, longitude: x / scale };
+    }
+  };
+
+  coordinateRuns(geometry).forEach(run => {
+    const valid = run.filter(coord => Array.isArray(coord) && coord.length >= 2);
+    if (valid.length === 1) {
+      consider(valid[0][0] * scale, valid[0][1]);
+    }
+    for (let i = 0; i < valid.length - 1; i++) {
+      const ax = valid[i][0] * scale;
+      const ay = valid[i][1];
+      const bx = valid[i + 1][0] * scale;
+      const by = valid[i + 1][1];
+      const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+      const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared));
+      consider(ax + t * (bx - ax), ay + t * (by - ay));
+    }
+  });
+
+  return best;
+};
+
+const ringContains = (ring: number[][], x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Whether a GeoJSON Polygon or MultiPolygon contains the point. The first ring
+// of each polygon is its outline, the others are holes.
+export const polygonContains = (geometry: any, point: LatLng): boolean => {
+  if (!geometry || !geometry.coordinates) {
+    return false;
+  }
+  const polygons: number[][][][] =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.type === 'MultiPolygon' ? geometry.coordinates : [];
+  return polygons.some(([outline, ...holes]) =>
+    ringContains(outline, point.longitude, point.latitude) &&
+    !holes.some(hole => ringContains(hole, point.longitude, point.latitude))
+  );
+};
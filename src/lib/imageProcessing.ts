@@ -0,0 +1,93 @@
+import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { File } from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { createId, ReportMedia } from './reports';
+import {
+  IMAGE_BYTE_BUDGET,
+  IMAGE_MAX_DIMENSION,
+  THUMBNAIL_MAX_DIMENSION,
+} from './config';
+
+export interface ProcessedImage {
+  uri: string;
+  width: number;
+  height: number;
+  thumbnailUri: string;
+}
+
+// JPEG qualities tried in order until the image fits the byte budget
+const QUALITY_STEPS = [0.8, 0.7, 0.6, 0.5, 0.4];
+const THUMBNAIL_QUALITY = 0.6;
+
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const fileSize = (uri: string) => (Platform.OS === 'web' ? 0 : new File(uri).size);
+
+// Small JPEG preview used in lists and galleries. Also used for video frames.
+export const createThumbnail = async (uri: string, width: number, height: number): Promise<string> => {
+  const size = fitWithin(width, height, THUMBNAIL_MAX_DIMENSION);
+  const thumbnail = await ImageManipulator.manipulate(uri).resize(size).renderAsync();
+  const result = await thumbnail.saveAsync({ compress: THUMBNAIL_QUALITY, format: SaveFormat.JPEG });
+  return result.uri;
+};
+
+// Downscales a captured or picked photo, re-encodes it to fit the byte budget
+// and renders a thumbnail. Re-encoding drops all EXIF data, so callers must
+// read GPS and capture time from the original before calling this.
+export const processPhoto = async (uri: string, width: number, height: number): Promise<ProcessedImage> => {
+  const target = fitWithin(width, height, IMAGE_MAX_DIMENSION);
+  const image = await ImageManipulator.manipulate(uri).resize(target).renderAsync();
+
+  let result = await image.saveAsync({ compress: QUALITY_STEPS[0], format: SaveFormat.JPEG });
+  for (const quality of QUALITY_STEPS.slice(1)) {
+    if (fileSize(result.uri) <= IMAGE_BYTE_BUDGET) {
+      break;
+    }
+    result = await image.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+  }
+
+  return {
+    uri: result.uri,
+    width: result.width,
+    height: result.height,
+    thumbnailUri: await createThumbnail(result.uri, result.width, result.height),
+  };
+};
+
+// Report media item for a captured or picked photo, ready for the capture tray
+export const createPhotoMedia = async (uri: string, width: number, height: number): Promise<ReportMedia> => {
+  const processed = await processPhoto(uri, width, height);
+  return {
+    mediaId: createId(),
+    kind: 'photo',
+    uri: processed.uri,
+    width: processed.width,
+    height: processed.height,
+    thumbnailUri: processed.thumbnailUri,
+  };
+};
+
+// Videos are uploaded as recorded; only a thumbnail of the first frame is made
+export const createVideoMedia = async (uri: string, durationMs: number): Promise<ReportMedia> => {
+  let frame: VideoThumbnails.VideoThumbnailsResult | null = null;
+  let thumbnailUri: string | undefined;
+  try {
+    frame = await VideoThumbnails.getThumbnailAsync(uri, { time: 0 });
+    thumbnailUri = await createThumbnail(frame.uri, frame.width, frame.height);
+  } catch (error) {
+    console.warn('⚠️ Could not create video thumbnail:', error);
+  }
+  return {
+    mediaId: createId(),
+    kind: 'video',
+    uri,
+    width: frame?.width ?? 0,
+    height: frame?.height ?? 0,
+    durationMs,
+    thumbnailUri,
+  };
+};
@@ -0,0 +1,21 @@
+import { Ionicons } from '@expo/vector-icons';
+
+// Stored as observed_meta.issue_type on each report
+export interface IssueType {
+  id: string;
+  name: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+export const issueTypes: IssueType[] = [
+  { id: 'pothole', name: 'Pothole', icon: 'car', color: '#e74c3c' },
+  { id: 'streetlight', name: 'Street Light', icon: 'bulb', color: '#f39c12' },
+  { id: 'traffic', name: 'Traffic Signal', icon: 'warning', color: '#3498db' },
+  { id: 'sidewalk', name: 'Sidewalk', icon: 'walk', color: '#2ecc71' },
+  { id: 'drainage', name: 'Drainage', icon: 'water', color: '#1abc9c' },
+  { id: 'other', name: 'Other', icon: 'help-circle', color: '#95a5a6' },
+];
+
+export const getIssueType = (id?: string | null): IssueType =>
+  issueTypes.find(type => type.id === id) || issueTypes[issueTypes.length - 1];
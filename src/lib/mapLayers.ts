@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ionicons } from '@expo/vector-icons';
+
+const STORAGE_KEY = 'map:layers:v1';
+
+// DPWH layers stored in public.projects. The server maps each id to the
+// source layers it was imported from (public.map_layer_sources).
+export type ProjectLayerId = 'asian-highway' | 'nautical-highway' | 'bridges' | 'kilometer-posts';
+
+export type MapLayerId = ProjectLayerId | 'reports';
+
+export interface MapLayer {
+  id: MapLayerId;
+  name: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  strokeWidth: number;
+  // How the legend draws the layer's swatch
+  geometry: 'line' | 'point';
+}
+
+// Listed in drawing order: lines below points, reports on top
+export const mapLayers: MapLayer[] = [
+  { id: 'asian-highway', name: 'Asian Highway', icon: 'car', color: '#8e44ad', strokeWidth: 4, geometry: 'line' },
+  { id: 'nautical-highway', name: 'Nautical Highway', icon: 'boat', color: '#16a085', strokeWidth: 3, geometry: 'line' },
+  { id: 'bridges', name: 'Bridges', icon: 'git-branch', color: '#2980b9', strokeWidth: 2, geometry: 'point' },
+  { id: 'kilometer-posts', name: 'KM Posts', icon: 'locate', color: '#34495e', strokeWidth: 2, geometry: 'point' },
+  { id: 'reports', name: 'Citizen Reports', icon: 'megaphone', color: '#e74c3c', strokeWidth: 2, geometry: 'point' },
+];
+
+export const getMapLayer = (id: MapLayerId): MapLayer =>
+  mapLayers.find(layer => layer.id === id)!;
+
+export const isProjectLayer = (id: MapLayerId): id is ProjectLayerId => id !== 'reports';
+
+export const defaultMapLayers: MapLayerId[] = ['bridges', 'reports'];
+
+export const loadMapLayers = async (): Promise<MapLayerId[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return defaultMapLayers;
+    }
+    // Drop ids from older versions of the layer list
+    return (JSON.parse(stored) as MapLayerId[]).filter(id => mapLayers.some(layer => layer.id === id));
+  } catch (error) {
+    console.warn('⚠️ Could not read map layers:', error);
+    return defaultMapLayers;
+  }
+};
+
+export const saveMapLayers = async (layers: MapLayerId[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(layers));
+  } catch (error) {
+    console.warn('⚠️ Could not save map layers:', error);
+  }
+};
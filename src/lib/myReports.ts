@@ -0,0 +1,584 @@
+import { StorageClient } from '@supabase/storage-js';
+import { requireSupabase } from './supabase';
+import { DEVICE_PID_HEADER, getDevicePid } from './deviceIdentity';
+import { LocationSource, MediaKind, REPORT_MEDIA_BUCKET, ReportMedia, Severity, uploadMediaFiles } from './reports';
+import { ReportStatus } from './reportStatus';
+import { ConditionRating } from './conditions';
+import { parseGeometry, ProjectGeometry } from './projects';
+import { getIssueType, issueTypes } from './issueTypes';
+import { emptyReportFilters, ReportFilters } from './reportFilters';
+import { LatLng } from './geo';
+import { FeedOptions } from './nearbyFeed';
+import { getAddressResolver } from './adminAreas';
+
+export const REPORTS_PAGE_SIZE = 20;
+
+// Raised by update_my_report / withdraw_my_report once a report has been moderated
+const REPORT_LOCKED = '55000';
+
+export interface SubmittedMedia {
+  mediaId: string;
+  kind: MediaKind;
+  url: string;
+  thumbnailUrl: string | null;
+  width: number | null;
+  height: number | null;
+  durationMs: number | null;
+}
+
+// A report as stored on the server, as opposed to NewReport which is what
+// the device sends
+export interface SubmittedReport {
+  reportId: string;
+  projectId: string | null;
+  projectName: string | null;
+  text: string | null;
+  status: ReportStatus;
+  severity: Severity;
+  issueType: string | null;
+  observedCondition: ConditionRating;
+  observedMaterials: string[];
+  observedHazards: string[];
+  observedAt: string | null;
+  // Only loaded by fetchReport; null in list results
+  projectConditionOfficial: ConditionRating | null;
+  projectGeometry: ProjectGeometry | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Barangay, city and province from the offline boundary lookup
+  address: string | null;
+  submittedAt: string;
+  moderatedAt: string | null;
+  moderatorNote: string | null;
+  // In display order; the first item is the cover
+  media: SubmittedMedia[];
+  // Sent from this device. Only these can be edited or withdrawn, and only while pending.
+  isMine: boolean;
+}
+
+export type ReportCounts = Record<ReportStatus, number>;
+
+// Search text and filters for My Reports. `origin` is only needed for the
+// distance sort; without it the list falls back to newest first.
+export interface ReportQuery {
+  search: string;
+  filters: ReportFilters;
+  origin: LatLng | null;
+}
+
+export const defaultReportQuery: ReportQuery = { search: '', filters: emptyReportFilters, origin: null };
+
+// Fields the owner may change while a report is pending. Location is only
+// sent when the pin was moved.
+export interface ReportChanges {
+  text: string;
+  severity: Severity;
+  issueType: string;
+  observedCondition: ConditionRating;
+  observedMaterials: string[];
+  observedHazards: string[];
+  observedAt: string | null;
+  location: { latitude: number; longitude: number; source: LocationSource } | null;
+  // Final media list in display order. Items whose mediaId is not among the
+  // report's current media are uploaded; current items left out are removed.
+  media: ReportMedia[];
+}
+
+export class ReportLockedError extends Error {
+  constructor() {
+    super('This report has already been reviewed and can no longer be changed.');
+    this.name = 'ReportLockedError';
+  }
+}
+
+// One audit_log entry for a report, as exposed by public.report_history
+export interface ReportHistoryEntry {
+  action: string;
+  status: ReportStatus | null;
+  note: string | null;
+  createdAt: string;
+}
+
+const REPORT_FIELDS = `
+  report_id, project_id, is_mine, text, status, severity, geom,
+  observed_condition, observed_materials, observed_hazards, observed_at, observed_meta,
+  submitted_at, moderated_at, moderator_note,
+  report_media ( media_id, kind, storage_path, thumbnail_path, width, height, duration_ms, position )
+`;
+
+const REPORT_COLUMNS = `${REPORT_FIELDS}, projects ( name )`;
+
+// Project geometry can be a long road line, so it is only fetched for a single report
+const REPORT_DETAIL_COLUMNS = `${REPORT_FIELDS}, projects ( name, condition_official, geom )`;
+
+const REPORT_EXPORT_COLUMNS = `${REPORT_FIELDS}, projects ( name, condition_official )`;
+
+// Signed media URLs stay valid this long; screens refetch well within it
+const MEDIA_URL_TTL_SECONDS = 60 * 60;
+
+// Per device id; the id only changes when the user resets it
+const deviceStorage = new Map<string, StorageClient>();
+
+// supabase-js storage calls cannot set a header per request, so the device
+// gets its own storage client. The report-media policies need x-device-pid
+// for the device's own pending and withdrawn reports.
+const getDeviceStorage = (devicePid: string): StorageClient => {
+  requireSupabase();
+  let storage = deviceStorage.get(devicePid);
+  if (!storage) {
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+    storage = new StorageClient(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1`, {
+      apikey: supabaseKey,
+      Authorization: `Bearer ${supabaseKey}`,
+      [DEVICE_PID_HEADER]: devicePid,
+    });
+    deviceStorage.set(devicePid, storage);
+  }
+  return storage;
+};
+
+type MediaUrlResolver = (path: string) => string;
+
+// report-media is private, so every object of the rows is signed in one
+// request. Media that cannot be signed gets an empty URL and shows blank.
+const signMediaUrls = async (rows: any[], devicePid: string): Promise<MediaUrlResolver> => {
+  const paths: string[] = rows.flatMap(row =>
+    (row.report_media || []).flatMap((media: any) => [media.storage_path, media.thumbnail_path].filter(Boolean))
+  );
+  if (paths.length === 0) {
+    return () => '';
+  }
+  const { data, error } = await getDeviceStorage(devicePid)
+    .from(REPORT_MEDIA_BUCKET)
+    .createSignedUrls(paths, MEDIA_URL_TTL_SECONDS);
+  if (error) {
+    console.warn('⚠️ Could not sign report media URLs:', error);
+    return () => '';
+  }
+  const urls = new Map(data.filter(entry => entry.path && !entry.error).map(entry => [entry.path!, entry.signedUrl]));
+  return path => urls.get(path) ?? '';
+};
+
+const toSubmittedMedia = (row: any, mediaUrl: MediaUrlResolver): SubmittedMedia => ({
+  mediaId: row.media_id,
+  kind: row.kind,
+  url: mediaUrl(row.storage_path),
+  thumbnailUrl: row.thumbnail_path ? mediaUrl(row.thumbnail_path) : null,
+  width: row.width,
+  height: row.height,
+  durationMs: row.duration_ms,
+});
+
+type AddressResolver = (point: LatLng) => string | null;
+
+const toSubmittedReport = (row: any, resolveAddress: AddressResolver, mediaUrl: MediaUrlResolver): SubmittedReport => {
+  const point = parseGeometry(row.geom);
+  const coordinates = point && point.type === 'Point' ? point.coordinates : null;
+  const media = [...(row.report_media || [])].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+  return {
+    reportId: row.report_id,
+    projectId: row.project_id,
+    projectName: row.projects?.name ?? null,
+    text: row.text,
+    status: row.status,
+    severity: row.severity,
+    issueType: row.observed_meta?.issue_type ?? null,
+    observedCondition: row.observed_condition ?? 'unknown',
+    observedMaterials: row.observed_materials || [],
+    observedHazards: row.observed_hazards || [],
+    observedAt: row.observed_at,
+    projectConditionOfficial: row.projects?.condition_official ?? null,
+    projectGeometry: row.projects?.geom ? parseGeometry(row.projects.geom) : null,
+    latitude: coordinates ? coordinates[1] : null,
+    longitude: coordinates ? coordinates[0] : null,
+    address: coordinates ? resolveAddress({ latitude: coordinates[1], longitude: coordinates[0] }) : null,
+    submittedAt: row.submitted_at,
+    moderatedAt: row.moderated_at,
+    moderatorNote: row.moderator_note,
+    media: media.map(item => toSubmittedMedia(item, mediaUrl)),
+    isMine: row.is_mine === true,
+  };
+};
+
+const orNull = <T>(list: T[]) => (list.length > 0 ? list : null);
+
+// The functions wrap p_query in `%...%` for ilike, so the user's own `%`
+// and `_` must match literally. Backslash is ilike's default escape.
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+// Filter arguments shared by public.search_my_reports and
+// public.count_my_reports. Issue type labels only exist in the app, so the
+// types whose label matches the search text are sent along.
+const toFilterArgs = ({ search, filters }: ReportQuery) => {
+  const text = search.trim().toLowerCase();
+  return {
+    p_query: text ? escapeLikePattern(text) : null,
+    p_query_issue_types: text
+      ? issueTypes.filter(type => type.name.toLowerCase().includes(text)).map(type => type.id)
+      : null,
+    p_statuses: orNull(filters.statuses),
+    p_issue_types: orNull(filters.issueTypes),
+    p_severities: orNull(filters.severities),
+    p_conditions: orNull(filters.conditions),
+    p_from: filters.fromDate ? new Date(`${filters.fromDate}T00:00:00`).toISOString() : null,
+    p_to: filters.toDate ? new Date(`${filters.toDate}T23:59:59.999`).toISOString() : null,
+    p_project_id: filters.projectId,
+  };
+};
+
+const toSearchArgs = (query: ReportQuery) => {
+  const sort = query.filters.sort === 'distance' && !query.origin ? 'newest' : query.filters.sort;
+  return {
+    ...toFilterArgs(query),
+    p_sort: sort,
+    p_lat: sort === 'distance' ? query.origin!.latitude : null,
+    p_lng: sort === 'distance' ? query.origin!.longitude : null,
+  };
+};
+
+// One page of this device's reports matching the query. Pages are zero-based.
+export const fetchMyReports = async (
+  page: number,
+  query: ReportQuery = defaultReportQuery
+): Promise<SubmittedReport[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+  const from = page * REPORTS_PAGE_SIZE;
+
+  const { data, error } = await supabase
+    .rpc('search_my_reports', toSearchArgs(query))
+    .select(REPORT_COLUMNS)
+    .range(from, from + REPORTS_PAGE_SIZE - 1)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const mediaUrl = await signMediaUrls(data || [], devicePid);
+
+  return (data || []).map(row => toSubmittedReport(row, resolveAddress, mediaUrl));
+};
+
+// Totals per status across every report matching the query, not just the
+// loaded pages. Statuses excluded by the filter count as zero. Sent as a POST,
+// since a GET RPC would pass null arguments as the string "null".
+export const fetchMyReportCounts = async (query: ReportQuery = defaultReportQuery): Promise<ReportCounts> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const counts = { pending: 0, approved: 0, rejected: 0 } as ReportCounts;
+
+  const { data, error } = await supabase
+    .rpc('count_my_reports', toFilterArgs(query))
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  (data || []).forEach((row: any) => {
+    counts[row.status as ReportStatus] = Number(row.report_count);
+  });
+  return counts;
+};
+
+// Projects this device has linked reports to, for the project filter
+export const fetchMyReportProjects = async (): Promise<{ projectId: string; name: string }[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select('project_id, projects ( name )')
+    .eq('is_mine', true)
+    .not('project_id', 'is', null)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const projects = new Map<string, string>();
+  (data || []).forEach((row: any) => {
+    projects.set(row.project_id, row.projects?.name || 'Unnamed project');
+  });
+  return [...projects.entries()]
+    .map(([projectId, name]) => ({ projectId, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Moderation state of every report from this device, for status-change
+// notifications. Deliberately small so it is cheap to poll in the background.
+export interface MyReportState {
+  reportId: string;
+  title: string;
+  status: ReportStatus;
+  moderatorNote: string | null;
+}
+
+export const fetchMyReportStates = async (): Promise<MyReportState[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select('report_id, status, moderator_note, observed_meta, projects ( name )')
+    .eq('is_mine', true)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map((row: any) => ({
+    reportId: row.report_id,
+    title: row.projects?.name || getIssueType(row.observed_meta?.issue_type).name,
+    status: row.status,
+    moderatorNote: row.moderator_note,
+  }));
+};
+
+// A single report: any approved report, or one of this device's own.
+// Returns null when the report does not exist or is not visible.
+export const fetchReport = async (reportId: string): Promise<SubmittedReport | null> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select(REPORT_DETAIL_COLUMNS)
+    .eq('report_id', reportId)
+    .setHeader(DEVICE_PID_HEADER, devicePid)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!data) {
+    return null;
+  }
+  const mediaUrl = await signMediaUrls([data], devicePid);
+  return toSubmittedReport(data, resolveAddress, mediaUrl);
+};
+
+// Several reports with the official project condition, for export. Keeps
+// the order of `reportIds`; reports that are no longer visible are skipped.
+export const fetchReportsForExport = async (reportIds: string[]): Promise<SubmittedReport[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select(REPORT_EXPORT_COLUMNS)
+    .in('report_id', reportIds)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const mediaUrl = await signMediaUrls(data || [], devicePid);
+  const byId = new Map((data || []).map(row => [row.report_id, toSubmittedReport(row, resolveAddress, mediaUrl)]));
+  return reportIds.flatMap(id => byId.get(id) ?? []);
+};
+
+// Moderation and edit history of a report, oldest first
+export const fetchReportHistory = async (reportId: string): Promise<ReportHistoryEntry[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { data, error } = await supabase
+    .rpc('report_history', { p_report_id: reportId })
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map((row: any) => ({
+    action: row.action,
+    status: row.status,
+    note: row.note,
+    createdAt: row.created_at,
+  }));
+};
+
+// Latest reports for the map: approved reports plus this device's own
+// pending and rejected ones, which visible_reports lets through because of the header
+export const fetchMapReports = async (limit: number = 500): Promise<SubmittedReport[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select(REPORT_COLUMNS)
+    .not('geom', 'is', null)
+    .order('submitted_at', { ascending: false })
+    .limit(limit)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const mediaUrl = await signMediaUrls(data || [], devicePid);
+
+  return (data || []).map(row => toSubmittedReport(row, resolveAddress, mediaUrl));
+};
+
+// Latest approved reports linked to a project, for the map's feature sheet
+export const fetchProjectReports = async (projectId: string, limit: number = 5): Promise<SubmittedReport[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+
+  const { data, error } = await supabase
+    .from('visible_reports')
+    .select(REPORT_COLUMNS)
+    .eq('project_id', projectId)
+    .eq('status', 'approved')
+    .order('submitted_at', { ascending: false })
+    .limit(limit)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const mediaUrl = await signMediaUrls(data || [], devicePid);
+
+  return (data || []).map(row => toSubmittedReport(row, resolveAddress, mediaUrl));
+};
+
+// One page of the community feed: approved reports within `options.radiusM`
+// of `origin`, newest or nearest first
+export const fetchNearbyReports = async (
+  page: number,
+  origin: LatLng,
+  options: FeedOptions
+): Promise<SubmittedReport[]> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const resolveAddress = await getAddressResolver();
+  const from = page * REPORTS_PAGE_SIZE;
+
+  const { data, error } = await supabase
+    .rpc('nearby_reports', {
+      p_lat: origin.latitude,
+      p_lng: origin.longitude,
+      p_meters: options.radiusM,
+      p_sort: options.sort,
+    })
+    .select(REPORT_COLUMNS)
+    .range(from, from + REPORTS_PAGE_SIZE - 1)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const mediaUrl = await signMediaUrls(data || [], devicePid);
+
+  return (data || []).map(row => toSubmittedReport(row, resolveAddress, mediaUrl));
+};
+
+const toRpcError = (error: { code?: string; message: string }) =>
+  error.code === REPORT_LOCKED ? new ReportLockedError() : new Error(error.message);
+
+// Applies the owner's changes to a pending report. New media is uploaded
+// first; the database function then swaps the media list and writes the
+// before/after snapshots to audit_log in one transaction.
+export const updateMyReport = async (report: SubmittedReport, changes: ReportChanges): Promise<void> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+  const currentIds = new Set(report.media.map(item => item.mediaId));
+
+  const media = [];
+  for (const item of changes.media) {
+    if (currentIds.has(item.mediaId)) {
+      media.push({ media_id: item.mediaId });
+      continue;
+    }
+    const { storagePath, thumbnailPath } = await uploadMediaFiles(report.reportId, item);
+    media.push({
+      media_id: item.mediaId,
+      kind: item.kind,
+      storage_path: storagePath,
+      thumbnail_path: thumbnailPath,
+      width: item.width,
+      height: item.height,
+      duration_ms: item.kind === 'video' ? item.durationMs ?? null : null,
+    });
+  }
+
+  const { error } = await supabase
+    .rpc('update_my_report', {
+      p_report_id: report.reportId,
+      p_changes: {
+        text: changes.text,
+        severity: changes.severity,
+        issue_type: changes.issueType,
+        observed_condition: changes.observedCondition,
+        observed_materials: changes.observedMaterials,
+        observed_hazards: changes.observedHazards,
+        observed_at: changes.observedAt,
+        ...(changes.location
+          ? {
+              latitude: changes.location.latitude,
+              longitude: changes.location.longitude,
+              location_source: changes.location.source,
+            }
+          : {}),
+        media,
+      },
+    })
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw toRpcError(error);
+  }
+};
+
+// The storage policies let the withdrawing device list and remove a report's
+// objects once the report is gone. The withdrawal already succeeded, so a
+// failure here only leaves objects nobody else can read for the sweep.
+const removeReportObjects = async (reportId: string, devicePid: string) => {
+  const bucket = getDeviceStorage(devicePid).from(REPORT_MEDIA_BUCKET);
+  try {
+    const { data, error } = await bucket.list(reportId);
+    if (error) {
+      throw error;
+    }
+    if (data.length > 0) {
+      const { error: removeError } = await bucket.remove(data.map(object => `${reportId}/${object.name}`));
+      if (removeError) {
+        throw removeError;
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not remove the media of a withdrawn report:', error);
+  }
+};
+
+// Deletes a pending report, its media rows and its photos and videos. The
+// snapshot before deletion is kept in audit_log.
+export const withdrawMyReport = async (reportId: string): Promise<void> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { error } = await supabase
+    .rpc('withdraw_my_report', { p_report_id: reportId })
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw toRpcError(error);
+  }
+
+  await removeReportObjects(reportId, devicePid);
+};
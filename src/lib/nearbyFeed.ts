@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { Ionicons } from '@expo/vector-icons';
+import { LatLng } from './geo';
+
+const STORAGE_KEY = 'feed:options:v1';
+
+export type FeedSort = 'newest' | 'nearest';
+
+export const feedSorts: { id: FeedSort; name: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: 'newest', name: 'Newest', icon: 'time-outline' },
+  { id: 'nearest', name: 'Nearest', icon: 'navigate-outline' },
+];
+
+// Radius choices in meters
+export const feedRadii = [1000, 5000, 10000, 25000];
+
+export interface FeedOptions {
+  radiusM: number;
+  sort: FeedSort;
+}
+
+export const defaultFeedOptions: FeedOptions = { radiusM: 5000, sort: 'newest' };
+
+export const loadFeedOptions = async (): Promise<FeedOptions> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultFeedOptions, ...JSON.parse(stored) } : defaultFeedOptions;
+  } catch (error) {
+    console.warn('⚠️ Could not read feed options:', error);
+    return defaultFeedOptions;
+  }
+};
+
+export const saveFeedOptions = async (options: FeedOptions): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn('⚠️ Could not save feed options:', error);
+  }
+};
+
+// Current position for the feed, or null when permission is denied
+export const locateForFeed = async (): Promise<LatLng | null> => {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+  const position = await Location.getCurrentPositionAsync({});
+  return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+};
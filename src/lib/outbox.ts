@@ -0,0 +1,279 @@
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { NewReport, submitReport } from './reports';
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  report: NewReport;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+const STORAGE_KEY = 'outbox:v1';
+const OUTBOX_TASK = 'report-outbox-flush';
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const TICK_MS = 30 * 1000;
+
+let items: OutboxItem[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<OutboxListener>();
+
+const backoffFor = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+
+const notify = () => {
+  const snapshot = [...items];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const persist = async () => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  notify();
+};
+
+const updateItem = async (reportId: string, changes: Partial<OutboxItem>) => {
+  items = items.map(item => (item.report.reportId === reportId ? { ...item, ...changes } : item));
+  await persist();
+};
+
+const ensureLoaded = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const parsed: OutboxItem[] = stored ? JSON.parse(stored) : [];
+        // A send interrupted by the app being killed is safe to retry
+        items = parsed.map(item => (item.status === 'sending' ? { ...item, status: 'pending' } : item));
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+        items = [];
+      }
+      notify();
+    })();
+  }
+  return loaded;
+};
+
+// Camera and picker URIs live in caches the OS may purge, so queued media is
+// copied into the document directory until the report has been sent.
+const outboxDirectory = () => {
+  const directory = new Directory(Paths.document, 'outbox');
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+  return directory;
+};
+
+const extensionOf = (uri: string) => {
+  const match = uri.match(/\.\w+$/);
+  return match ? match[0] : '';
+};
+
+const keepFile = (uri: string, name: string): string => {
+  if (Platform.OS === 'web') {
+    return uri;
+  }
+  const destination = new File(outboxDirectory(), name);
+  if (!destination.exists) {
+    new File(uri).copy(destination);
+  }
+  return destination.uri;
+};
+
+const discardFiles = (report: NewReport) => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+  const uris = report.media.flatMap(item => (item.thumbnailUri ? [item.uri, item.thumbnailUri] : [item.uri]));
+  uris.forEach(uri => {
+    try {
+      const file = new File(uri);
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not delete outbox file:', error);
+    }
+  });
+};
+
+export const getOutboxItems = async (): Promise<OutboxItem[]> => {
+  await ensureLoaded();
+  return [...items];
+};
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  ensureLoaded().then(() => listener([...items]));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Queues a report for delivery. Enqueuing the same report twice is a no-op.
+export const enqueueReport = async (report: NewReport): Promise<void> => {
+  await ensureLoaded();
+  if (items.some(item => item.report.reportId === report.reportId)) {
+    return;
+  }
+
+  const media = report.media.map(item => ({
+    ...item,
+    uri: keepFile(item.uri, `${item.mediaId}${extensionOf(item.uri)}`),
+    thumbnailUri: item.thumbnailUri
+      ? keepFile(item.thumbnailUri, `${item.mediaId}-thumb${extensionOf(item.thumbnailUri)}`)
+      : undefined,
+  }));
+
+  items = [
+    ...items,
+    {
+      report: { ...report, media },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    },
+  ];
+  await persist();
+};
+
+const sendItem = async (item: OutboxItem) => {
+  const reportId = item.report.reportId;
+  await updateItem(reportId, { status: 'sending' });
+
+  try {
+    await submitReport(item.report);
+    items = items.filter(current => current.report.reportId !== reportId);
+    discardFiles(item.report);
+    await persist();
+  } catch (error) {
+    const attempts = item.attempts + 1;
+    console.warn(`⚠️ Outbox send failed for ${reportId} (attempt ${attempts}):`, error);
+    await updateItem(reportId, {
+      status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + backoffFor(attempts),
+      lastError: (error as Error).message,
+    });
+  }
+};
+
+// Sends every pending report whose backoff has elapsed. Concurrent calls share
+// the same run so a report is never sent twice at once; the run picks up
+// reports queued while it is going, so callers can rely on it for those too.
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) {
+    return flushing;
+  }
+
+  flushing = (async () => {
+    await ensureLoaded();
+    const network = await NetInfo.fetch();
+    if (network.isConnected === false) {
+      return;
+    }
+
+    // One attempt per report and run: a failed send is pending again, but
+    // its backoff belongs to the next run
+    const attempted = new Set<string>();
+    for (;;) {
+      const item = items.find(
+        current =>
+          current.status === 'pending'
+          && current.nextAttemptAt <= Date.now()
+          && !attempted.has(current.report.reportId)
+      );
+      if (!item) {
+        break;
+      }
+      attempted.add(item.report.reportId);
+      await sendItem(item);
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+// Manual retry from the UI; also revives reports that exhausted their attempts.
+export const retryOutboxItem = async (reportId: string): Promise<void> => {
+  await ensureLoaded();
+  const item = items.find(current => current.report.reportId === reportId);
+  if (!item || item.status === 'sending') {
+    return;
+  }
+  await updateItem(reportId, {
+    status: 'pending',
+    attempts: item.status === 'failed' ? 0 : item.attempts,
+    nextAttemptAt: Date.now(),
+  });
+  await flushOutbox();
+};
+
+export const removeOutboxItem = async (reportId: string): Promise<void> => {
+  await ensureLoaded();
+  const item = items.find(current => current.report.reportId === reportId);
+  if (!item || item.status === 'sending') {
+    return;
+  }
+  items = items.filter(current => current.report.reportId !== reportId);
+  discardFiles(item.report);
+  await persist();
+};
+
+// Task definitions must live at module scope so they exist when the OS wakes
+// the app in the background.
+TaskManager.defineTask(OUTBOX_TASK, async () => {
+  try {
+    await flushOutbox();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('Error flushing outbox in background:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+// Starts foreground retries (connectivity changes, app resume and a periodic
+// tick) and registers the background task. Returns a cleanup function.
+export const startOutbox = (): (() => void) => {
+  flushOutbox();
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    if (state.isConnected) {
+      flushOutbox();
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      flushOutbox();
+    }
+  });
+  const interval = setInterval(flushOutbox, TICK_MS);
+
+  if (Platform.OS !== 'web') {
+    BackgroundTask.registerTaskAsync(OUTBOX_TASK, { minimumInterval: 15 }).catch(error => {
+      console.warn('⚠️ Could not register outbox background task:', error);
+    });
+  }
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    clearInterval(interval);
+  };
+};
@@ -0,0 +1,217 @@
+import type { Region } from 'react-native-maps';
+import { requireSupabase } from './supabase';
+import { parseGeometry, ProjectGeometry, ProjectType } from './projects';
+import { ProjectLayerId } from './mapLayers';
+import type { ConditionRating } from './conditions';
+
+// Rows per tile request. A full tile means the layer is thinned at this zoom.
+export const TILE_FEATURE_LIMIT = 500;
+
+// Extra area loaded around the visible region, as a fraction of its size,
+// so short pans do not need a request
+const VIEWPORT_MARGIN = 0.25;
+
+const MAX_CACHED_TILES = 200;
+
+export interface ProjectFeatureProperties {
+  // Map layer the feature was loaded for
+  layer: ProjectLayerId;
+  project_id: string;
+  name: string;
+  type: ProjectType;
+  city: string | null;
+  barangay: string | null;
+  condition_official: ConditionRating | null;
+  // Attributes of the source dataset from projects.raw (BR_NAME, CONDITION, ...)
+  [attribute: string]: unknown;
+}
+
+export interface ProjectFeature {
+  type: 'Feature';
+  geometry: ProjectGeometry;
+  properties: ProjectFeatureProperties;
+}
+
+// Row of public.projects_in_bbox
+interface ProjectRow {
+  project_id: string;
+  name: string;
+  type: ProjectType;
+  city: string | null;
+  barangay: string | null;
+  condition_official: ConditionRating | null;
+  geom: unknown;
+  raw: Record<string, unknown> | null;
+}
+
+interface Tile {
+  key: string;
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+interface CachedTile {
+  features: ProjectFeature[];
+  full: boolean;
+}
+
+// Keyed by layer and tile; Map keeps insertion order, so the first key is the oldest
+const tileCache = new Map<string, CachedTile>();
+
+export interface ProjectFeatures {
+  type: 'FeatureCollection';
+  features: ProjectFeature[];
+  // Some tile hit TILE_FEATURE_LIMIT; zooming in shows more
+  truncated: boolean;
+}
+
+// Square tiles on a plain lat/lng grid. The zoom is picked so that the
+// visible region spans about two tiles, whatever the map's zoom.
+const tilesForRegion = (layer: ProjectLayerId, region: Region): Tile[] => {
+  const zoom = Math.max(0, Math.min(20, Math.floor(Math.log2(360 / region.longitudeDelta)) + 1));
+  const size = 360 / 2 ** zoom;
+  const halfLng = region.longitudeDelta * (0.5 + VIEWPORT_MARGIN);
+  const halfLat = region.latitudeDelta * (0.5 + VIEWPORT_MARGIN);
+
+  const minX = Math.floor((region.longitude - halfLng + 180) / size);
+  const maxX = Math.floor((region.longitude + halfLng + 180) / size);
+  const minY = Math.floor((Math.max(-90, region.latitude - halfLat) + 90) / size);
+  const maxY = Math.floor((Math.min(90, region.latitude + halfLat) + 90) / size);
+
+  const tiles: Tile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({
+        key: `${layer}/${zoom}/${x}/${y}`,
+        minLng: x * size - 180,
+        minLat: y * size - 90,
+        maxLng: (x + 1) * size - 180,
+        maxLat: (y + 1) * size - 90,
+      });
+    }
+  }
+  return tiles;
+};
+
+// Features without a usable geometry are dropped. The named properties come
+// last so a source attribute can never shadow them.
+const toFeature = (layer: ProjectLayerId, project: ProjectRow): ProjectFeature | null => {
+  const geometry: ProjectGeometry | null = parseGeometry(project.geom);
+  if (!geometry) {
+    return null;
+  }
+  return {
+    type: 'Feature',
+    geometry,
+    properties: {
+      ...project.raw, // Include original properties
+      layer,
+      project_id: project.project_id,
+      name: project.name,
+      type: project.type,
+      city: project.city,
+      barangay: project.barangay,
+      condition_official: project.condition_official,
+    },
+  };
+};
+
+const fetchTile = async (layer: ProjectLayerId, tile: Tile, signal: AbortSignal): Promise<CachedTile> => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .rpc('projects_in_bbox', {
+      p_layer: layer,
+      p_min_lng: tile.minLng,
+      p_min_lat: tile.minLat,
+      p_max_lng: tile.maxLng,
+      p_max_lat: tile.maxLat,
+      p_limit: TILE_FEATURE_LIMIT,
+    })
+    .abortSignal(signal);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows: ProjectRow[] = data || [];
+  return {
+    features: rows
+      .map(row => toFeature(layer, row))
+      .filter((feature): feature is ProjectFeature => feature !== null),
+    full: rows.length >= TILE_FEATURE_LIMIT,
+  };
+};
+
+const cacheTile = (key: string, tile: CachedTile) => {
+  tileCache.delete(key);
+  tileCache.set(key, tile);
+  while (tileCache.size > MAX_CACHED_TILES) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+};
+
+// Features of `layer` around the visible region. Tiles already loaded are
+// served from memory. Returns null when `signal` was aborted by a newer pan;
+// tiles that finished before the abort are still cached.
+// Project layers with at least one row in public.map_layer_sources. null when
+// the table could not be read, in which case every layer is offered.
+export const fetchSourcedLayers = async (): Promise<ProjectLayerId[] | null> => {
+  try {
+    const supabase = requireSupabase();
+    const { data, error } = await supabase.from('map_layer_sources').select('layer_id');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return [...new Set((data || []).map(row => row.layer_id as ProjectLayerId))];
+  } catch (error) {
+    console.warn('⚠️ Could not load map layer sources:', error);
+    return null;
+  }
+};
+
+export const loadProjectFeatures = async (
+  layer: ProjectLayerId,
+  region: Region,
+  signal: AbortSignal
+): Promise<ProjectFeatures | null> => {
+  const tiles = tilesForRegion(layer, region);
+
+  await Promise.all(
+    tiles
+      .filter(tile => !tileCache.has(tile.key))
+      .map(async tile => {
+        const loaded = await fetchTile(layer, tile, signal);
+        cacheTile(tile.key, loaded);
+      })
+  ).catch(error => {
+    if (!signal.aborted) {
+      throw error;
+    }
+  });
+
+  if (signal.aborted) {
+    return null;
+  }
+
+  // Lines crossing a tile edge come back from each tile they touch
+  const seen = new Set<string>();
+  const features: ProjectFeature[] = [];
+  let truncated = false;
+  tiles.forEach(tile => {
+    const cached = tileCache.get(tile.key);
+    if (!cached) {
+      return;
+    }
+    truncated = truncated || cached.full;
+    cached.features.forEach(feature => {
+      if (!seen.has(feature.properties.project_id)) {
+        seen.add(feature.properties.project_id);
+        features.push(feature);
+      }
+    });
+  });
+
+  return { type: 'FeatureCollection', features, truncated };
+};
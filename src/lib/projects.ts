@@ -0,0 +1,148 @@
+import { Ionicons } from '@expo/vector-icons';
+import { requireSupabase } from './supabase';
+import { ConditionRating } from './conditions';
+
+// Mirrors the project_type enum
+export type ProjectType = 'road' | 'bridge' | 'building' | 'drainage' | 'school' | 'other';
+
+// GeoJSON geometries of DPWH features, as returned by PostGIS
+export type ProjectGeometry =
+  | { type: 'Point'; coordinates: number[] }
+  | { type: 'LineString'; coordinates: number[][] }
+  | { type: 'MultiLineString'; coordinates: number[][][] }
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+// Row returned by public.nearby_projects
+export interface NearbyProject {
+  project_id: string;
+  name: string;
+  type: ProjectType;
+  status_official: string | null;
+  distance_m: number;
+  geom: unknown;
+}
+
+export const DEFAULT_NEARBY_RADIUS_M = 500;
+
+// DPWH kilometer posts are imported with type 'other'
+export const getProjectTypeIcon = (type: string): keyof typeof Ionicons.glyphMap => {
+  switch (type) {
+    case 'bridge':
+      return 'git-branch';
+    case 'road':
+      return 'car';
+    case 'drainage':
+      return 'water';
+    case 'building':
+    case 'school':
+      return 'business';
+    default:
+      return 'locate';
+  }
+};
+
+// PostGIS geometry may come back as a GeoJSON object or a JSON string
+export const parseGeometry = (geom: unknown): ProjectGeometry | null => {
+  if (typeof geom === 'string') {
+    try {
+      return JSON.parse(geom);
+    } catch (e) {
+      console.warn('Failed to parse geometry:', e);
+      return null;
+    }
+  }
+  return (geom ?? null) as ProjectGeometry | null;
+};
+
+// Projects within `meters` of the point, nearest first (up to 100).
+export const fetchNearbyProjects = async (
+  latitude: number,
+  longitude: number,
+  meters: number = DEFAULT_NEARBY_RADIUS_M
+): Promise<NearbyProject[]> => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase.rpc('nearby_projects', {
+    lat: latitude,
+    lng: longitude,
+    meters,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as NearbyProject[]).map(project => ({
+    ...project,
+    geom: parseGeometry(project.geom),
+  }));
+};
+
+// Point on the nearest project geometry, as returned by public.snap_to_project
+export interface ProjectSnap {
+  project_id: string;
+  name: string;
+  distance_m: number;
+  latitude: number;
+  longitude: number;
+}
+
+// Closest point on the nearest project within `meters`, measured to the
+// geometry itself rather than its centroid, so long roads and bridges count.
+// Returns null when nothing is that close.
+export const snapToProject = async (
+  latitude: number,
+  longitude: number,
+  meters: number
+): Promise<ProjectSnap | null> => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .rpc('snap_to_project', {
+      p_lat: latitude,
+      p_lng: longitude,
+      p_meters: meters,
+    })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as ProjectSnap | null;
+};
+
+// Official attributes of a project that are not carried on map features
+export interface ProjectDetails {
+  project_id: string;
+  agency: string | null;
+  status_official: string | null;
+  budget_amount: number | null;
+  fund_source: string | null;
+  contractor: string | null;
+  start_date: string | null;
+  target_end_date: string | null;
+  condition_official: ConditionRating;
+  last_inspected_at: string | null;
+  primary_material: string | null;
+  design_type: string | null;
+  length_m: number | null;
+  width_m: number | null;
+  lanes: number | null;
+  year_built: number | null;
+}
+
+export const fetchProjectDetails = async (projectId: string): Promise<ProjectDetails | null> => {
+  const supabase = requireSupabase();
+  const { data, error } = await supabase
+    .from('projects')
+    .select(
+      'project_id, agency, status_official, budget_amount, fund_source, contractor, start_date, target_end_date, '
+      + 'condition_official, last_inspected_at, primary_material, design_type, length_m, width_m, lanes, year_built'
+    )
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as ProjectDetails | null;
+};
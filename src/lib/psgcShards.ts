@@ -0,0 +1,9 @@
+// Generated by scripts/export-psgc.js from public.admin_boundaries; do not edit.
+// Run `npm run psgc:export` to bundle the boundaries into assets/psgc. Each
+// loader requires its file only when called, so a lookup parses the index and
+// one shard instead of the whole country.
+import type { BoundaryCollection } from './adminAreas';
+
+export const loadPsgcIndex = (): BoundaryCollection | null => null;
+
+export const psgcShards: Record<string, () => BoundaryCollection> = {};
@@ -0,0 +1,215 @@
+import { Ionicons } from '@expo/vector-icons';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { SubmittedReport } from './myReports';
+import { getReportStatus } from './reportStatus';
+import { getIssueType } from './issueTypes';
+import { getSeverity } from './reports';
+import { getChecklistName, getCondition, hazardOptions, materialOptions } from './conditions';
+
+export type ExportFormat = 'csv' | 'geojson' | 'pdf';
+
+export const exportFormats: {
+  id: ExportFormat;
+  name: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { id: 'csv', name: 'CSV', description: 'Spreadsheet, one row per report', icon: 'grid-outline' },
+  { id: 'geojson', name: 'GeoJSON', description: 'Map data for GIS tools', icon: 'map-outline' },
+  { id: 'pdf', name: 'PDF Dossier', description: 'Printable pages with photos', icon: 'document-text-outline' },
+];
+
+const fileTypes: Record<ExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', uti: 'public.comma-separated-values-text' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', uti: 'public.json' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf', uti: 'com.adobe.pdf' },
+};
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) {
+    return '';
+  }
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// Flat view of a report shared by the CSV and GeoJSON exports
+const toRecord = (report: SubmittedReport) => ({
+  report_id: report.reportId,
+  status: report.status,
+  submitted_at: report.submittedAt,
+  observed_at: report.observedAt,
+  moderated_at: report.moderatedAt,
+  issue_type: report.issueType,
+  severity: report.severity,
+  observed_condition: report.observedCondition,
+  official_condition: report.projectConditionOfficial,
+  project_id: report.projectId,
+  project_name: report.projectName,
+  latitude: report.latitude,
+  longitude: report.longitude,
+  address: report.address,
+  hazards: report.observedHazards,
+  materials: report.observedMaterials,
+  description: report.text,
+  moderator_note: report.moderatorNote,
+  media_urls: report.media.map(item => item.url),
+});
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (reports: SubmittedReport[]): string => {
+  const records = reports.map(toRecord);
+  const columns = Object.keys(toRecord(reports[0])) as (keyof ReturnType<typeof toRecord>)[];
+  const rows = records.map(record => columns.map(column => csvCell(record[column])).join(','));
+  // The byte order mark makes Excel read the file as UTF-8
+  return '﻿' + [columns.join(','), ...rows].join('\r\n');
+};
+
+export const toGeoJson = (reports: SubmittedReport[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: reports.map(report => ({
+      type: 'Feature',
+      geometry: report.latitude !== null && report.longitude !== null
+        ? { type: 'Point', coordinates: [report.longitude, report.latitude] }
+        : null,
+      properties: toRecord(report),
+    })),
+  }, null, 2);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const conditionBadge = (rating: string | null) => {
+  const condition = getCondition(rating);
+  return `<span class="badge" style="background:${condition.color}">${escapeHtml(condition.name)}</span>`;
+};
+
+const dossierPage = (report: SubmittedReport) => {
+  const status = getReportStatus(report.status);
+  const issueType = getIssueType(report.issueType);
+  const rows: [string, string][] = [
+    ['Report ID', escapeHtml(report.reportId)],
+    ['Status', `<span class="badge" style="background:${status.color}">${status.name}</span>`],
+    ['Issue type', escapeHtml(issueType.name)],
+    ['Severity', escapeHtml(getSeverity(report.severity).name)],
+    ['Submitted', formatDate(report.submittedAt)],
+    ['Observed', formatDate(report.observedAt) || 'At submission'],
+    ['Reviewed', formatDate(report.moderatedAt) || 'Not yet reviewed'],
+    ['Coordinates', report.latitude !== null && report.longitude !== null
+      ? `${report.latitude.toFixed(6)}, ${report.longitude.toFixed(6)}`
+      : 'Not available'],
+    ['Address', report.address ? escapeHtml(report.address) : 'Not available'],
+    ['Project', report.projectName ? escapeHtml(report.projectName) : 'Not linked'],
+    ['Observed condition', conditionBadge(report.observedCondition)],
+  ];
+  if (report.projectId) {
+    rows.push(['Official condition', conditionBadge(report.projectConditionOfficial)]);
+  }
+  rows.push(
+    ['Materials', escapeHtml(report.observedMaterials.map(id => getChecklistName(materialOptions, id)).join(', ')) || 'None recorded'],
+    ['Hazards', escapeHtml(report.observedHazards.map(id => getChecklistName(hazardOptions, id)).join(', ')) || 'None reported'],
+  );
+  if (report.moderatorNote) {
+    rows.push(['Moderator note', escapeHtml(report.moderatorNote)]);
+  }
+
+  // Videos are represented by their thumbnail
+  const images = report.media
+    .map(item => (item.kind === 'photo' ? item.url : item.thumbnailUrl))
+    .filter((url): url is string => !!url)
+    .map(url => `<img src="${escapeHtml(url)}" />`)
+    .join('');
+
+  return `
+    <section class="report">
+      <h2>${escapeHtml(report.projectName || issueType.name)}</h2>
+      ${report.text ? `<p class="description">${escapeHtml(report.text)}</p>` : ''}
+      <table>
+        ${rows.map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`).join('')}
+      </table>
+      ${images ? `<div class="photos">${images}</div>` : ''}
+    </section>`;
+};
+
+export const toDossierHtml = (reports: SubmittedReport[]): string => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <style>
+        @page { margin: 18mm; }
+        body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #2c3e50; font-size: 11pt; }
+        header { border-bottom: 2px solid #2c3e50; margin-bottom: 16px; }
+        h1 { font-size: 18pt; margin: 0 0 4px; }
+        header p { color: #7f8c8d; margin: 0 0 8px; }
+        .report { page-break-after: always; }
+        .report:last-child { page-break-after: auto; }
+        h2 { font-size: 15pt; margin: 0 0 8px; }
+        .description { line-height: 1.5; }
+        table { width: 100%; border-collapse: collapse; margin: 12px 0; }
+        th { text-align: left; width: 35%; color: #7f8c8d; font-weight: 600; }
+        th, td { padding: 6px 8px; border-bottom: 1px solid #e1e8ed; vertical-align: top; }
+        .badge { color: #fff; padding: 2px 8px; border-radius: 10px; font-size: 9pt; font-weight: 600; }
+        .photos { display: flex; flex-wrap: wrap; gap: 8px; }
+        .photos img { width: 48%; max-height: 240px; object-fit: cover; border-radius: 4px; }
+      </style>
+    </head>
+    <body>
+      <header>
+        <h1>Public Works Reports</h1>
+        <p>${reports.length} report${reports.length === 1 ? '' : 's'} · generated ${formatDate(new Date().toISOString())}</p>
+      </header>
+      ${reports.map(dossierPage).join('')}
+    </body>
+  </html>`;
+
+const exportFileName = (format: ExportFormat) => {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `reports-${stamp}.${fileTypes[format].extension}`;
+};
+
+// Writes the export to the cache directory and opens the system share sheet
+export const exportReports = async (reports: SubmittedReport[], format: ExportFormat): Promise<void> => {
+  if (reports.length === 0) {
+    throw new Error('There are no reports to export.');
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  const target = new File(Paths.cache, exportFileName(format));
+  if (target.exists) {
+    target.delete();
+  }
+
+  if (format === 'pdf') {
+    const { uri } = await Print.printToFileAsync({ html: toDossierHtml(reports) });
+    new File(uri).move(target);
+  } else {
+    target.create();
+    target.write(format === 'csv' ? toCsv(reports) : toGeoJson(reports));
+  }
+
+  const { mimeType, uti } = fileTypes[format];
+  await Sharing.shareAsync(target.uri, { mimeType, UTI: uti, dialogTitle: 'Export reports' });
+};
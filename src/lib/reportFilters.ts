@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ionicons } from '@expo/vector-icons';
+import { ReportStatus } from './reportStatus';
+import { Severity } from './reports';
+import { ConditionRating } from './conditions';
+
+const STORAGE_KEY = 'reports:filters:v1';
+
+export type ReportSort = 'newest' | 'oldest' | 'severity' | 'distance';
+
+export const reportSorts: { id: ReportSort; name: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: 'newest', name: 'Newest', icon: 'arrow-down' },
+  { id: 'oldest', name: 'Oldest', icon: 'arrow-up' },
+  { id: 'severity', name: 'Severity', icon: 'warning-outline' },
+  { id: 'distance', name: 'Nearest', icon: 'navigate-outline' },
+];
+
+// Empty lists mean "any". Dates are local calendar days (YYYY-MM-DD), inclusive.
+export interface ReportFilters {
+  statuses: ReportStatus[];
+  issueTypes: string[];
+  severities: Severity[];
+  conditions: ConditionRating[];
+  fromDate: string | null;
+  toDate: string | null;
+  projectId: string | null;
+  sort: ReportSort;
+}
+
+export const emptyReportFilters: ReportFilters = {
+  statuses: [],
+  issueTypes: [],
+  severities: [],
+  conditions: [],
+  fromDate: null,
+  toDate: null,
+  projectId: null,
+  sort: 'newest',
+};
+
+// Number of filters in use, for the badge on the filter button. Sort order is not counted.
+export const countActiveFilters = (filters: ReportFilters): number =>
+  [
+    filters.statuses.length > 0,
+    filters.issueTypes.length > 0,
+    filters.severities.length > 0,
+    filters.conditions.length > 0,
+    filters.fromDate !== null || filters.toDate !== null,
+    filters.projectId !== null,
+  ].filter(Boolean).length;
+
+export const loadReportFilters = async (): Promise<ReportFilters> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    // Merge over the defaults so filters added in later versions get a value
+    return stored ? { ...emptyReportFilters, ...JSON.parse(stored) } : emptyReportFilters;
+  } catch (error) {
+    console.warn('⚠️ Could not read saved report filters:', error);
+    return emptyReportFilters;
+  }
+};
+
+export const saveReportFilters = async (filters: ReportFilters): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.warn('⚠️ Could not save report filters:', error);
+  }
+};
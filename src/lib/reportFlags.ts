@@ -0,0 +1,57 @@
+import { Ionicons } from '@expo/vector-icons';
+import { requireSupabase } from './supabase';
+import { DEVICE_PID_HEADER, getDevicePid } from './deviceIdentity';
+import { UNIQUE_VIOLATION } from './reports';
+
+// Mirrors the report_flags.reason check constraint
+export type FlagReason = 'duplicate' | 'wrong_location' | 'inappropriate_photo' | 'spam' | 'already_fixed';
+
+export const flagReasons: { id: FlagReason; name: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: 'duplicate', name: 'Duplicate of another report', icon: 'copy-outline' },
+  { id: 'wrong_location', name: 'Wrong location', icon: 'location-outline' },
+  { id: 'inappropriate_photo', name: 'Inappropriate photo', icon: 'eye-off-outline' },
+  { id: 'spam', name: 'Spam', icon: 'ban-outline' },
+  { id: 'already_fixed', name: 'Already fixed', icon: 'checkmark-done-outline' },
+];
+
+export const MAX_FLAG_NOTE_LENGTH = 500;
+
+// Whether this device has already flagged the report. Flags are only
+// readable by staff and by the device that sent them.
+export const hasFlaggedReport = async (reportId: string): Promise<boolean> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { count, error } = await supabase
+    .from('report_flags')
+    .select('flag_id', { count: 'exact', head: true })
+    .eq('report_id', reportId)
+    .eq('device_pid', devicePid)
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (count ?? 0) > 0;
+};
+
+// Flags an approved report for moderator review. Each device can flag a
+// report once; flagging it again is a no-op.
+export const flagReport = async (reportId: string, reason: FlagReason, note: string): Promise<void> => {
+  const supabase = requireSupabase();
+  const devicePid = await getDevicePid();
+
+  const { error } = await supabase
+    .from('report_flags')
+    .insert({
+      report_id: reportId,
+      reason,
+      note: note.trim() || null,
+      device_pid: devicePid,
+    })
+    .setHeader(DEVICE_PID_HEADER, devicePid);
+
+  if (error && error.code !== UNIQUE_VIOLATION) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,220 @@
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { fetchMyReportStates, MyReportState } from './myReports';
+import { getReportStatus } from './reportStatus';
+
+export type NotificationCategory = 'approved' | 'rejected' | 'moderatorNote';
+
+export const notificationCategories: { id: NotificationCategory; name: string; description: string }[] = [
+  { id: 'approved', name: 'Report approved', description: 'A moderator published one of your reports' },
+  { id: 'rejected', name: 'Report rejected', description: 'A moderator turned down one of your reports' },
+  { id: 'moderatorNote', name: 'Moderator notes', description: 'A moderator left a note on one of your reports' },
+];
+
+export type NotificationSettings = Record<NotificationCategory, boolean>;
+
+export const defaultNotificationSettings: NotificationSettings = {
+  approved: true,
+  rejected: true,
+  moderatorNote: true,
+};
+
+const SETTINGS_KEY = 'notifications:settings:v1';
+// Last seen status and note per report, to tell what changed since
+const SEEN_KEY = 'notifications:seen:v1';
+const STATUS_TASK = 'report-status-check';
+const CHANNEL_ID = 'report-status';
+const TICK_MS = 2 * 60 * 1000;
+
+type SeenState = Record<string, { status: string; moderatorNote: string | null }>;
+
+let checking: Promise<void> | null = null;
+
+export const loadNotificationSettings = async (): Promise<NotificationSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaultNotificationSettings, ...JSON.parse(stored) } : defaultNotificationSettings;
+  } catch (error) {
+    console.warn('⚠️ Could not read notification settings:', error);
+    return defaultNotificationSettings;
+  }
+};
+
+export const saveNotificationSettings = async (settings: NotificationSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('⚠️ Could not save notification settings:', error);
+  }
+};
+
+// Asks for permission if it has not been decided yet. Returns whether
+// notifications can be shown.
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) {
+    return current.granted;
+  }
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// The notification for a change, or null when the change is not worth one
+// under the current settings. A status change that comes with a note is
+// announced once, under the status category.
+const describeChange = (
+  previous: SeenState[string],
+  current: MyReportState,
+  settings: NotificationSettings
+): Notifications.NotificationContentInput | null => {
+  const statusChanged = current.status !== previous.status;
+  const noteChanged = !!current.moderatorNote && current.moderatorNote !== previous.moderatorNote;
+  const data = { reportId: current.reportId };
+
+  if (statusChanged && current.status !== 'pending' && settings[current.status]) {
+    return {
+      title: `Report ${getReportStatus(current.status).name.toLowerCase()}`,
+      body: current.moderatorNote ? `${current.title}: ${current.moderatorNote}` : current.title,
+      data,
+    };
+  }
+  if (noteChanged && settings.moderatorNote) {
+    return {
+      title: 'New moderator note',
+      body: `${current.title}: ${current.moderatorNote}`,
+      data,
+    };
+  }
+  return null;
+};
+
+const runCheck = async () => {
+  const [states, stored, settings] = await Promise.all([
+    fetchMyReportStates(),
+    AsyncStorage.getItem(SEEN_KEY),
+    loadNotificationSettings(),
+  ]);
+  // The first check only records a baseline, so existing reports do not all
+  // notify at once after an update
+  const seen: SeenState | null = stored ? JSON.parse(stored) : null;
+
+  if (seen) {
+    for (const state of states) {
+      const previous = seen[state.reportId];
+      const content = previous ? describeChange(previous, state, settings) : null;
+      if (content) {
+        await Notifications.scheduleNotificationAsync({
+          content,
+          trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+        });
+      }
+    }
+  }
+
+  // Withdrawn reports and those of a reset device ID drop out here
+  const next: SeenState = {};
+  states.forEach(state => {
+    next[state.reportId] = { status: state.status, moderatorNote: state.moderatorNote };
+  });
+  await AsyncStorage.setItem(SEEN_KEY, JSON.stringify(next));
+};
+
+// Compares the device's reports with what was seen last time and shows a
+// local notification for each status change or new moderator note.
+export const checkReportStatusChanges = (): Promise<void> => {
+  if (!checking) {
+    checking = runCheck().finally(() => {
+      checking = null;
+    });
+  }
+  return checking;
+};
+
+// Task definitions must live at module scope so they exist when the OS wakes
+// the app in the background.
+TaskManager.defineTask(STATUS_TASK, async () => {
+  try {
+    await checkReportStatusChanges();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error('Error checking report status in background:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+const reportIdOf = (response: Notifications.NotificationResponse | null) => {
+  const reportId = response?.notification.request.content.data?.reportId;
+  return typeof reportId === 'string' ? reportId : null;
+};
+
+// Polls for moderation changes while the app is open and registers the
+// background check. Reports are read through the x-device-pid header, which
+// realtime subscriptions do not carry, so this polls instead of subscribing.
+// `onOpenReport` is called when a notification is tapped, including the one
+// that launched the app. Returns a cleanup function.
+export const startReportNotifications = (onOpenReport: (reportId: string) => void): (() => void) => {
+  const check = () => {
+    checkReportStatusChanges().catch(error => {
+      console.warn('⚠️ Could not check report status:', error);
+    });
+  };
+  check();
+
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      check();
+    }
+  });
+  const interval = setInterval(check, TICK_MS);
+
+  const responseSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const reportId = reportIdOf(response);
+    if (reportId) {
+      onOpenReport(reportId);
+    }
+  });
+  Notifications.getLastNotificationResponseAsync().then(response => {
+    const reportId = reportIdOf(response);
+    if (reportId) {
+      Notifications.clearLastNotificationResponse();
+      onOpenReport(reportId);
+    }
+  }).catch(error => {
+    console.warn('⚠️ Could not read the notification that opened the app:', error);
+  });
+
+  if (Platform.OS !== 'web') {
+    if (Platform.OS === 'android') {
+      Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Report status',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      }).catch(error => {
+        console.warn('⚠️ Could not create report status notification channel:', error);
+      });
+    }
+    BackgroundTask.registerTaskAsync(STATUS_TASK, { minimumInterval: 15 }).catch(error => {
+      console.warn('⚠️ Could not register report status background task:', error);
+    });
+  }
+
+  return () => {
+    appStateSubscription.remove();
+    clearInterval(interval);
+    responseSubscription.remove();
+  };
+};
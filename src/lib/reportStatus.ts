@@ -0,0 +1,22 @@
+import { Ionicons } from '@expo/vector-icons';
+
+// Mirrors the report_status enum
+export type ReportStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReportStatusOption {
+  id: ReportStatus;
+  name: string;
+  color: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}
+
+// Shared by the reports list, its stats bar and the map legend so the three
+// always agree on labels and colours
+export const reportStatuses: ReportStatusOption[] = [
+  { id: 'pending', name: 'Pending', color: '#f39c12', icon: 'time-outline' },
+  { id: 'approved', name: 'Approved', color: '#2ecc71', icon: 'checkmark-circle-outline' },
+  { id: 'rejected', name: 'Rejected', color: '#e74c3c', icon: 'close-circle-outline' },
+];
+
+export const getReportStatus = (status?: string | null): ReportStatusOption =>
+  reportStatuses.find(option => option.id === status) || reportStatuses[0];
@@ -0,0 +1,201 @@
+import * as Crypto from 'expo-crypto';
+import { requireSupabase, toPointEWKT } from './supabase';
+import { ConditionRating } from './conditions';
+
+export type Severity = 'info' | 'low' | 'medium' | 'high';
+
+export const severities: { id: Severity; name: string; color: string }[] = [
+  { id: 'info', name: 'Info', color: '#95a5a6' },
+  { id: 'low', name: 'Low', color: '#2ecc71' },
+  { id: 'medium', name: 'Medium', color: '#f39c12' },
+  { id: 'high', name: 'High', color: '#e74c3c' },
+];
+
+export const getSeverity = (severity?: string | null) =>
+  severities.find(option => option.id === severity) || severities[0];
+
+export type MediaKind = 'photo' | 'video';
+
+// Where the report location came from: photo EXIF, the phone's GPS, the user,
+// or the geometry of a DPWH project (picked from the map or snapped onto)
+export type LocationSource = 'exif' | 'device' | 'manual' | 'project';
+
+// Storage bucket holding report photos and videos; objects are keyed by report_id.
+export const REPORT_MEDIA_BUCKET = 'report-media';
+
+// Postgres unique_violation, returned when a retried insert already landed
+export const UNIQUE_VIOLATION = '23505';
+
+export interface ReportMedia {
+  mediaId: string;
+  kind: MediaKind;
+  uri: string;
+  width: number;
+  height: number;
+  durationMs?: number;
+  // Small JPEG preview, uploaded next to the original
+  thumbnailUri?: string;
+}
+
+export interface NewReport {
+  reportId: string;
+  // Linked DPWH project from nearby_projects; null when "not listed"
+  projectId: string | null;
+  latitude: number;
+  longitude: number;
+  locationSource: LocationSource;
+  // Unadjusted device fix, kept for audit when the point was moved or taken from EXIF
+  gpsFix: { latitude: number; longitude: number; accuracy: number | null } | null;
+  text: string;
+  severity: Severity;
+  issueType: string;
+  devicePid: string;
+  observedCondition: ConditionRating;
+  observedMaterials: string[];
+  observedHazards: string[];
+  // ISO timestamp of the observation, when different from the submit time
+  observedAt: string | null;
+  // Answers to the attribute_defs survey questions, keyed by attribute key
+  observedMeta: Record<string, string | number | boolean>;
+  // In display order; the first item is the report's cover
+  media: ReportMedia[];
+}
+
+export type SubmissionStage = 'insert' | 'upload' | 'media';
+
+export class ReportSubmissionError extends Error {
+  stage: SubmissionStage;
+
+  constructor(stage: SubmissionStage, message: string) {
+    super(message);
+    this.name = 'ReportSubmissionError';
+    this.stage = stage;
+  }
+}
+
+export const createId = (): string => Crypto.randomUUID();
+
+const readFileBody = async (uri: string): Promise<ArrayBuffer> => {
+  const response = await fetch(uri);
+  return response.arrayBuffer();
+};
+
+const isAlreadyUploaded = (error: { message?: string; statusCode?: string }) =>
+  error.statusCode === '409' || /already exists/i.test(error.message || '');
+
+const fileExtension = (item: ReportMedia) => {
+  if (item.kind === 'photo') {
+    return 'jpg';
+  }
+  const match = item.uri.match(/\.(\w+)$/);
+  return match ? match[1].toLowerCase() : 'mp4';
+};
+
+const contentType = (item: ReportMedia, extension: string) => {
+  if (item.kind === 'photo') {
+    return 'image/jpeg';
+  }
+  return extension === 'mov' ? 'video/quicktime' : `video/${extension}`;
+};
+
+export const countPhotos = (media: ReportMedia[]) =>
+  media.filter(item => item.kind === 'photo').length;
+
+// Uploads one local file to the media bucket; an object left by an earlier
+// attempt counts as uploaded.
+const uploadFile = async (storagePath: string, uri: string, type: string, label: string) => {
+  const supabase = requireSupabase();
+
+  let body: ArrayBuffer;
+  try {
+    body = await readFileBody(uri);
+  } catch (error) {
+    throw new ReportSubmissionError('upload', `Could not read the ${label} from this device: ${(error as Error).message}`);
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(REPORT_MEDIA_BUCKET)
+    .upload(storagePath, body, { contentType: type, upsert: false });
+
+  if (uploadError && !isAlreadyUploaded(uploadError as { message?: string; statusCode?: string })) {
+    throw new ReportSubmissionError('upload', `Could not upload the ${label}: ${uploadError.message}`);
+  }
+};
+
+// Uploads a media item and its thumbnail. Returns the storage paths to record
+// in report_media.
+export const uploadMediaFiles = async (
+  reportId: string,
+  item: ReportMedia
+): Promise<{ storagePath: string; thumbnailPath: string | null }> => {
+  const extension = fileExtension(item);
+  const storagePath = `${reportId}/${item.mediaId}.${extension}`;
+  const label = item.kind === 'photo' ? 'photo' : 'video';
+
+  await uploadFile(storagePath, item.uri, contentType(item, extension), label);
+
+  let thumbnailPath: string | null = null;
+  if (item.thumbnailUri) {
+    thumbnailPath = `${reportId}/${item.mediaId}_thumb.jpg`;
+    await uploadFile(thumbnailPath, item.thumbnailUri, 'image/jpeg', `${label} thumbnail`);
+  }
+
+  return { storagePath, thumbnailPath };
+};
+
+const uploadMedia = async (reportId: string, item: ReportMedia, position: number) => {
+  const supabase = requireSupabase();
+  const label = item.kind === 'photo' ? 'photo' : 'video';
+  const { storagePath, thumbnailPath } = await uploadMediaFiles(reportId, item);
+
+  const { error: mediaError } = await supabase.from('report_media').insert({
+    media_id: item.mediaId,
+    report_id: reportId,
+    kind: item.kind,
+    storage_path: storagePath,
+    thumbnail_path: thumbnailPath,
+    width: item.width,
+    height: item.height,
+    duration_ms: item.kind === 'video' ? item.durationMs ?? null : null,
+    position,
+  });
+
+  if (mediaError && mediaError.code !== UNIQUE_VIOLATION) {
+    throw new ReportSubmissionError('media', `Could not attach the ${label} to the report: ${mediaError.message}`);
+  }
+};
+
+// Submits a report and its media. IDs are generated on the device, so calling
+// this again for the same report after a partial failure is safe: rows and
+// objects that already exist are skipped instead of duplicated.
+export const submitReport = async (report: NewReport): Promise<void> => {
+  const supabase = requireSupabase();
+
+  const { error: insertError } = await supabase.from('reports').insert({
+    report_id: report.reportId,
+    project_id: report.projectId,
+    geom: toPointEWKT(report.latitude, report.longitude),
+    location_source: report.locationSource,
+    gps_geom: report.gpsFix ? toPointEWKT(report.gpsFix.latitude, report.gpsFix.longitude) : null,
+    gps_accuracy_m: report.gpsFix?.accuracy ?? null,
+    text: report.text,
+    severity: report.severity,
+    device_pid: report.devicePid,
+    observed_condition: report.observedCondition,
+    observed_materials: report.observedMaterials,
+    observed_hazards: report.observedHazards,
+    observed_at: report.observedAt,
+    photo_count: countPhotos(report.media),
+    observed_meta: { ...report.observedMeta, issue_type: report.issueType },
+  });
+
+  if (insertError && insertError.code !== UNIQUE_VIOLATION) {
+    throw new ReportSubmissionError('insert', `Could not save the report: ${insertError.message}`);
+  }
+
+  // Sequential on purpose: mobile uplinks are slow and parallel uploads of
+  // large videos tend to time out together.
+  for (const [position, item] of report.media.entries()) {
+    await uploadMedia(report.reportId, item, position);
+  }
+};
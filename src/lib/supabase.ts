@@ -0,0 +1,38 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null = null;
+
+// Shared Supabase client. Returns null when the environment is not configured
+// so screens can degrade gracefully instead of crashing.
+export const getSupabase = (): SupabaseClient | null => {
+  if (client) {
+    return client;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('❌ Missing Supabase environment variables');
+    return null;
+  }
+
+  // Use require to avoid Metro bundler issues
+  const { createClient } = require('@supabase/supabase-js');
+  client = createClient(supabaseUrl, supabaseKey) as SupabaseClient;
+  return client;
+};
+
+// Same as getSupabase, but throws for callers that cannot continue without a
+// backend (e.g. report submission).
+export const requireSupabase = (): SupabaseClient => {
+  const supabase = getSupabase();
+  if (!supabase) {
+    throw new Error('Supabase is not configured. Check NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.');
+  }
+  return supabase;
+};
+
+// PostGIS accepts EWKT strings for geometry columns through PostgREST.
+export const toPointEWKT = (latitude: number, longitude: number): string =>
+  `SRID=4326;POINT(${longitude} ${latitude})`;
@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { conditionRatings, featureCondition } from './conditions';
+import type { ProjectFeatureProperties } from './projectTiles';
+
+const STORAGE_KEY = 'map:symbology:v1';
+
+export interface SymbolClass {
+  label: string;
+  color: string;
+  // Multiplier on the layer's stroke width, or on the point size
+  size: number;
+}
+
+export interface Symbology {
+  id: string;
+  name: string;
+  // Shown under the legend entry
+  description: string;
+  // In legend order
+  classes: SymbolClass[];
+  // null when the feature has no usable value; it keeps the layer's own style
+  classify: (properties: Partial<ProjectFeatureProperties>) => SymbolClass | null;
+}
+
+type PropertyReader = string | ((properties: Partial<ProjectFeatureProperties>) => unknown);
+
+const readProperty = (reader: PropertyReader, properties: Partial<ProjectFeatureProperties>): unknown =>
+  typeof reader === 'string' ? properties[reader] : reader(properties);
+
+// Styles features by exact value, e.g. a status or a type code
+export const categoricalSymbology = (
+  base: Omit<Symbology, 'classes' | 'classify'>,
+  property: PropertyReader,
+  categories: (SymbolClass & { value: string })[]
+): Symbology => ({
+  ...base,
+  classes: categories,
+  classify: properties => {
+    const value = readProperty(property, properties);
+    return categories.find(category => category.value === value) || null;
+  },
+});
+
+// Styles features by numeric ranges. Each break applies from `min` up to the
+// next break's `min`; breaks must be in ascending order.
+export const graduatedSymbology = (
+  base: Omit<Symbology, 'classes' | 'classify'>,
+  property: PropertyReader,
+  breaks: (SymbolClass & { min: number })[]
+): Symbology => ({
+  ...base,
+  classes: breaks,
+  classify: properties => {
+    const raw = readProperty(property, properties);
+    const value = Number(raw);
+    // DPWH uses 0 and blanks for "not recorded"
+    if (raw == null || raw === '' || !isFinite(value) || value <= 0) {
+      return null;
+    }
+    return [...breaks].reverse().find(range => value >= range.min) || null;
+  },
+});
+
+// Poor and failed features are drawn larger so they stand out
+const conditionSizes: Record<string, number> = { good: 1, fair: 1, poor: 1.5, failed: 2 };
+
+export const conditionSymbology = categoricalSymbology(
+  {
+    id: 'condition',
+    name: 'Condition',
+    description: 'Official rating, or the DPWH inventory condition when there is none',
+  },
+  featureCondition,
+  conditionRatings.map(option => ({ value: option.id, label: option.name, color: option.color, size: conditionSizes[option.id] }))
+);
+
+export const ageSymbology = graduatedSymbology(
+  {
+    id: 'age',
+    name: 'Age',
+    description: 'Year of construction from the DPWH inventory',
+  },
+  properties => properties.Actual_Year || properties.YR_CONST,
+  [
+    { min: 0, label: 'Before 1970', color: '#c0392b', size: 2 },
+    { min: 1970, label: '1970–1989', color: '#e67e22', size: 1.5 },
+    { min: 1990, label: '1990–2009', color: '#f1c40f', size: 1 },
+    { min: 2010, label: '2010 onwards', color: '#2ecc71', size: 1 },
+  ]
+);
+
+export const loadLimitSymbology = graduatedSymbology(
+  {
+    id: 'load-limit',
+    name: 'Load Limit',
+    description: 'Posted load limit in tons',
+  },
+  'LOAD_LIMIT',
+  [
+    { min: 0, label: 'Under 10 t', color: '#e74c3c', size: 2 },
+    { min: 10, label: '10–19 t', color: '#f39c12', size: 1.5 },
+    { min: 20, label: '20–29 t', color: '#3498db', size: 1 },
+    { min: 30, label: '30 t and up', color: '#2ecc71', size: 1 },
+  ]
+);
+
+export const symbologyPresets: Symbology[] = [conditionSymbology, ageSymbology, loadLimitSymbology];
+
+export const getSymbology = (id: string | null): Symbology | null =>
+  symbologyPresets.find(preset => preset.id === id) || null;
+
+// Id of the preset in use, or null for each layer's own colour
+export const loadSymbologyId = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('⚠️ Could not read map symbology:', error);
+    return null;
+  }
+};
+
+export const saveSymbologyId = async (id: string | null): Promise<void> => {
+  try {
+    if (id) {
+      await AsyncStorage.setItem(STORAGE_KEY, id);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not save map symbology:', error);
+  }
+};
@@ -1,72 +1,217 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   Alert,
-  Image,
   ScrollView,
   TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import {
+  CameraMode,
+  CameraView,
+  CameraType,
+  useCameraPermissions,
+  useMicrophonePermissions,
+} from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import { Ionicons } from '@expo/vector-icons';
+import { useRoute } from '@react-navigation/native';
+import { countPhotos, createId, LocationSource, ReportMedia, severities, Severity } from '../lib/reports';
+import { enqueueReport, flushOutbox, getOutboxItems } from '../lib/outbox';
+import { requestNotificationPermission } from '../lib/reportNotifications';
+import { getDevicePid } from '../lib/deviceIdentity';
+import {
+  MAX_EXIF_DISTANCE_M,
+  MAX_MEDIA_PER_REPORT,
+  MAX_PHOTO_AGE_HOURS,
+  MAX_VIDEO_DURATION_SECONDS,
+} from '../lib/config';
+import { readExifLocation, readExifTimestamp, requestMediaLocationAccess } from '../lib/exif';
+import { createPhotoMedia, createVideoMedia } from '../lib/imageProcessing';
+import { distanceInMeters, formatDistance } from '../lib/geo';
+import { adminAreasAvailable, formatAddress, reverseGeocode } from '../lib/adminAreas';
+import {
+  AttributeDef,
+  AttributeValues,
+  initialAttributeValues,
+  loadReportAttributeDefs,
+  missingRequiredAttributes,
+  toObservedMeta,
+} from '../lib/attributeDefs';
+import OutboxStatus from '../components/OutboxStatus';
+import CaptureTray from '../components/CaptureTray';
+import ObservationForm from '../components/ObservationForm';
+import ProjectPicker from '../components/ProjectPicker';
+import LocationPicker, { GpsFix } from '../components/LocationPicker';
+import { NearbyProject, ProjectType } from '../lib/projects';
+import { issueTypes } from '../lib/issueTypes';
+import ConditionForm, { emptyStructuredObservation, StructuredObservation } from '../components/ConditionForm';
 
-interface IssueType {
-  id: string;
-  name: string;
-  icon: keyof typeof Ionicons.glyphMap;
-  color: string;
+// Set when opened from a map feature's "Report an Issue Here"
+export interface CameraParams {
+  projectId: string;
+  projectName: string;
+  projectType: ProjectType;
+  latitude: number;
+  longitude: number;
+  // Tab params outlive the visit; a new value means a new request
+  requestedAt: number;
 }
 
-const issueTypes: IssueType[] = [
-  { id: 'pothole', name: 'Pothole', icon: 'car', color: '#e74c3c' },
-  { id: 'streetlight', name: 'Street Light', icon: 'bulb', color: '#f39c12' },
-  { id: 'traffic', name: 'Traffic Signal', icon: 'warning', color: '#3498db' },
-  { id: 'sidewalk', name: 'Sidewalk', icon: 'walk', color: '#2ecc71' },
-  { id: 'drainage', name: 'Drainage', icon: 'water', color: '#1abc9c' },
-  { id: 'other', name: 'Other', icon: 'help-circle', color: '#95a5a6' },
-];
+interface ReportLocation {
+  latitude: number;
+  longitude: number;
+  source: LocationSource;
+}
+
+const locationSources: Record<LocationSource, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  exif: { label: 'From photo metadata', icon: 'image' },
+  device: { label: 'From device GPS', icon: 'navigate' },
+  manual: { label: 'Set manually', icon: 'hand-left' },
+  project: { label: 'On the linked project', icon: 'git-commit' },
+};
 
 const CameraScreen: React.FC = () => {
+  const route = useRoute();
+  const params = route.params as CameraParams | undefined;
   const [permission, requestPermission] = useCameraPermissions();
+  const [microphonePermission, requestMicrophonePermission] = useMicrophonePermissions();
   const [cameraRef, setCameraRef] = useState<CameraView | null>(null);
   const [facing, setFacing] = useState<CameraType>('back');
-  const [photo, setPhoto] = useState<string | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('picture');
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const recordingStartedAt = useRef(0);
+  const [media, setMedia] = useState<ReportMedia[]>([]);
   const [showCamera, setShowCamera] = useState(false);
   const [selectedIssueType, setSelectedIssueType] = useState<string>('');
   const [description, setDescription] = useState('');
+  const [severity, setSeverity] = useState<Severity>('medium');
+  const [selectedProject, setSelectedProject] = useState<NearbyProject | null>(null);
+  const [structured, setStructured] = useState<StructuredObservation>(emptyStructuredObservation);
+  const [attributeDefs, setAttributeDefs] = useState<AttributeDef[]>([]);
+  const [attributeValues, setAttributeValues] = useState<AttributeValues>({});
+  // Stable per draft so a double-tapped submit is only queued once
+  const [reportId, setReportId] = useState<string>(() => createId());
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
+  const [reportLocation, setReportLocation] = useState<ReportLocation | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     getCurrentLocation();
+    loadAttributeDefs();
   }, []);
 
+  useEffect(() => {
+    if (!params) {
+      return;
+    }
+    setSelectedProject({
+      project_id: params.projectId,
+      name: params.projectName,
+      type: params.projectType,
+      status_official: null,
+      distance_m: 0,
+      geom: null,
+    });
+    setReportLocation({ latitude: params.latitude, longitude: params.longitude, source: 'project' });
+  }, [params?.requestedAt]);
+
+  // Offline lookup, so it also works where there is no signal
+  useEffect(() => {
+    if (!reportLocation) {
+      setAddress(null);
+      return;
+    }
+    let cancelled = false;
+    reverseGeocode(reportLocation).then(found => {
+      if (!cancelled) {
+        setAddress(formatAddress(found));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportLocation?.latitude, reportLocation?.longitude]);
+
+  const loadAttributeDefs = async () => {
+    try {
+      const defs = await loadReportAttributeDefs();
+      setAttributeDefs(defs);
+      setAttributeValues(initialAttributeValues(defs));
+    } catch (error) {
+      console.error('Error loading observation questions:', error);
+    }
+  };
+
+  const gpsFix: GpsFix | null = location
+    ? {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy,
+      }
+    : null;
+
+  const deviceReportLocation = (deviceLocation: Location.LocationObject): ReportLocation => ({
+    latitude: deviceLocation.coords.latitude,
+    longitude: deviceLocation.coords.longitude,
+    source: 'device',
+  });
+
   const getCurrentLocation = async () => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status === 'granted') {
         const currentLocation = await Location.getCurrentPositionAsync({});
         setLocation(currentLocation);
+        // Do not override a location taken from a photo or set by hand
+        setReportLocation(current =>
+          current && current.source !== 'device' ? current : deviceReportLocation(currentLocation)
+        );
       }
     } catch (error) {
       console.error('Error getting location:', error);
     }
   };
 
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+    const interval = setInterval(() => {
+      setRecordingSeconds(Math.floor((Date.now() - recordingStartedAt.current) / 1000));
+    }, 500);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const remainingSlots = MAX_MEDIA_PER_REPORT - media.length;
+
+  const addMedia = (items: ReportMedia[]) => {
+    setMedia(current => [...current, ...items].slice(0, MAX_MEDIA_PER_REPORT));
+  };
+
+  const ensureRoom = () => {
+    if (remainingSlots <= 0) {
+      Alert.alert('Limit Reached', `A report can have at most ${MAX_MEDIA_PER_REPORT} photos and videos.`);
+      return false;
+    }
+    return true;
+  };
+
   const takePicture = async () => {
-    if (cameraRef) {
+    if (cameraRef && ensureRoom()) {
       try {
+        // Full quality here; processPhoto does the one lossy re-encode
         const photo = await cameraRef.takePictureAsync({
-          quality: 0.8,
+          quality: 1,
           base64: false,
         });
-        setPhoto(photo.uri);
-        setShowCamera(false);
+        addMedia([await createPhotoMedia(photo.uri, photo.width, photo.height)]);
       } catch (error) {
         console.error('Error taking picture:', error);
         Alert.alert('Error', 'Failed to take picture');
@@ -74,27 +219,136 @@ const CameraScreen: React.FC = () => {
     }
   };
 
+  const startRecording = async () => {
+    if (!cameraRef || !ensureRoom()) {
+      return;
+    }
+
+    // Record without sound rather than not at all when the microphone is denied
+    if (!microphonePermission?.granted && microphonePermission?.canAskAgain !== false) {
+      await requestMicrophonePermission();
+    }
+
+    setIsRecording(true);
+    setRecordingSeconds(0);
+    recordingStartedAt.current = Date.now();
+    try {
+      // Resolves when stopRecording is called or the length cap is reached
+      const video = await cameraRef.recordAsync({ maxDuration: MAX_VIDEO_DURATION_SECONDS });
+      const durationMs = Math.min(Date.now() - recordingStartedAt.current, MAX_VIDEO_DURATION_SECONDS * 1000);
+      if (video?.uri) {
+        addMedia([await createVideoMedia(video.uri, durationMs)]);
+      }
+    } catch (error) {
+      console.error('Error recording video:', error);
+      Alert.alert('Error', 'Failed to record video');
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const stopRecording = () => {
+    cameraRef?.stopRecording();
+  };
+
+  const handleCapture = () => {
+    if (cameraMode === 'picture') {
+      takePicture();
+    } else if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
+  };
+
+  // Uses the GPS position and capture time of a gallery photo for the report,
+  // warning when they look unrelated to where and when the user is now.
+  const applyPhotoMetadata = (assets: ImagePicker.ImagePickerAsset[]) => {
+    const warnings: string[] = [];
+
+    const located = assets
+      .filter(asset => asset.type !== 'video')
+      .map(asset => ({ asset, exifLocation: readExifLocation(asset.exif) }))
+      .find(({ exifLocation }) => exifLocation !== null);
+
+    if (located?.exifLocation && reportLocation?.source !== 'manual') {
+      const { latitude, longitude } = located.exifLocation;
+      setReportLocation({ latitude, longitude, source: 'exif' });
+      if (location) {
+        const distance = distanceInMeters(latitude, longitude, location.coords.latitude, location.coords.longitude);
+        if (distance > MAX_EXIF_DISTANCE_M) {
+          warnings.push(`The photo was taken ${formatDistance(distance)} from where you are now.`);
+        }
+      }
+    }
+
+    const takenAt = assets
+      .filter(asset => asset.type !== 'video')
+      .map(asset => readExifTimestamp(asset.exif))
+      .find((date): date is Date => date !== null);
+
+    if (takenAt) {
+      setStructured(current => (current.observedAt ? current : { ...current, observedAt: takenAt.toISOString() }));
+      const ageHours = (Date.now() - takenAt.getTime()) / (60 * 60 * 1000);
+      if (ageHours > MAX_PHOTO_AGE_HOURS) {
+        warnings.push(`The photo was taken on ${takenAt.toLocaleDateString()}, more than ${MAX_PHOTO_AGE_HOURS} hours ago.`);
+      }
+    }
+
+    if (warnings.length > 0) {
+      Alert.alert(
+        'Check Photo Details',
+        `${warnings.join('\n\n')}\n\nThe report will use the photo's location and time. Make sure it still shows the current situation.`
+      );
+    }
+  };
+
   const pickImage = async () => {
+    if (!ensureRoom()) {
+      return;
+    }
     try {
+      await requestMediaLocationAccess();
       const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
+        mediaTypes: ['images', 'videos'],
+        allowsMultipleSelection: true,
+        selectionLimit: remainingSlots,
+        videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
+        quality: 1,
+        exif: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        setPhoto(result.assets[0].uri);
+      if (!result.canceled && result.assets.length > 0) {
+        // Read location and time first: processing strips EXIF from the copies
+        applyPhotoMetadata(result.assets);
+
+        const picked: ReportMedia[] = [];
+        for (const asset of result.assets) {
+          if (asset.type === 'video') {
+            const durationMs = asset.duration ?? 0;
+            if (durationMs > MAX_VIDEO_DURATION_SECONDS * 1000) {
+              Alert.alert(
+                'Video Too Long',
+                `Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long. Trim it and try again.`
+              );
+              continue;
+            }
+            picked.push(await createVideoMedia(asset.uri, durationMs));
+          } else {
+            picked.push(await createPhotoMedia(asset.uri, asset.width, asset.height));
+          }
+        }
+        addMedia(picked);
       }
     } catch (error) {
-      console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to pick image');
+      console.error('Error picking media:', error);
+      Alert.alert('Error', 'Failed to pick photos or videos');
     }
   };
 
   const submitReport = async () => {
-    if (!photo) {
-      Alert.alert('Missing Photo', 'Please take a photo of the issue');
+    if (countPhotos(media) === 0) {
+      Alert.alert('Missing Photo', 'Please take at least one photo of the issue');
       return;
     }
     if (!selectedIssueType) {
@@ -105,31 +359,81 @@ const CameraScreen: React.FC = () => {
       Alert.alert('Missing Description', 'Please provide a description of the issue');
       return;
     }
+    const missingAttributes = missingRequiredAttributes(attributeDefs, attributeValues);
+    if (missingAttributes.length > 0) {
+      Alert.alert('Missing Observations', `Please answer: ${missingAttributes.join(', ')}`);
+      return;
+    }
+    if (!reportLocation) {
+      Alert.alert('Missing Location', 'Please wait until your location has been found');
+      return;
+    }
 
     setIsSubmitting(true);
 
+    const resetForm = () => {
+      setMedia([]);
+      setSelectedProject(null);
+      setReportLocation(location ? deviceReportLocation(location) : null);
+      setSelectedIssueType('');
+      setDescription('');
+      setSeverity('medium');
+      setStructured(emptyStructuredObservation);
+      setAttributeValues(initialAttributeValues(attributeDefs));
+      setReportId(createId());
+    };
+
     try {
-      // Here you would normally submit to your backend/Supabase
-      // For now, we'll just simulate the submission
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Every report goes through the outbox so nothing is lost if the
+      // connection drops half way; it is sent right away when online.
+      await enqueueReport({
+        reportId,
+        projectId: selectedProject?.project_id ?? null,
+        latitude: reportLocation.latitude,
+        longitude: reportLocation.longitude,
+        locationSource: reportLocation.source,
+        gpsFix,
+        text: description.trim(),
+        severity,
+        issueType: selectedIssueType,
+        devicePid: await getDevicePid(),
+        observedCondition: structured.condition,
+        observedMaterials: structured.materials,
+        observedHazards: structured.hazards,
+        observedAt: structured.observedAt,
+        observedMeta: toObservedMeta(attributeDefs, attributeValues),
+        media,
+      });
+      await flushOutbox();
 
-      Alert.alert(
-        'Report Submitted',
-        'Thank you! Your report has been submitted successfully.',
-        [
-          {
-            text: 'OK',
-            onPress: () => {
-              setPhoto(null);
-              setSelectedIssueType('');
-              setDescription('');
-            },
-          },
-        ]
-      );
+      // Asked here, when the user has something to be notified about
+      requestNotificationPermission().catch(error => {
+        console.warn('⚠️ Could not request notification permission:', error);
+      });
+
+      const queued = (await getOutboxItems()).find(item => item.report.reportId === reportId);
+      if (!queued) {
+        Alert.alert(
+          'Report Submitted',
+          'Thank you! Your report has been submitted successfully.',
+          [{ text: 'OK', onPress: resetForm }]
+        );
+      } else if (queued.lastError) {
+        Alert.alert(
+          'Saved to Outbox',
+          `Your report could not be sent yet and will be retried automatically.\n\n${queued.lastError}`,
+          [{ text: 'OK', onPress: resetForm }]
+        );
+      } else {
+        Alert.alert(
+          'Saved Offline',
+          'You appear to be offline. Your report is saved on this device and will be sent when you are back online.',
+          [{ text: 'OK', onPress: resetForm }]
+        );
+      }
     } catch (error) {
-      console.error('Error submitting report:', error);
-      Alert.alert('Error', 'Failed to submit report. Please try again.');
+      console.error('Error saving report:', error);
+      Alert.alert('Error', `Failed to save report: ${(error as Error).message}`);
     } finally {
       setIsSubmitting(false);
     }
@@ -157,17 +461,54 @@ const CameraScreen: React.FC = () => {
   if (showCamera) {
     return (
       <View style={styles.cameraContainer}>
-        <CameraView style={styles.camera} facing={facing} ref={setCameraRef}>
+        <CameraView
+          style={styles.camera}
+          facing={facing}
+          mode={cameraMode}
+          mute={!microphonePermission?.granted}
+          ref={setCameraRef}
+        >
+          <View style={styles.cameraTopBar}>
+            <View style={styles.modeToggle}>
+              {(['picture', 'video'] as CameraMode[]).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.modeOption, cameraMode === mode && styles.modeOptionActive]}
+                  onPress={() => setCameraMode(mode)}
+                  disabled={isRecording}
+                >
+                  <Text style={styles.modeOptionText}>{mode === 'picture' ? 'Photo' : 'Video'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {isRecording ? (
+              <Text style={styles.recordingText}>
+                ● {recordingSeconds}s / {MAX_VIDEO_DURATION_SECONDS}s
+              </Text>
+            ) : (
+              <Text style={styles.captureCountText}>
+                {media.length}/{MAX_MEDIA_PER_REPORT}
+              </Text>
+            )}
+          </View>
+
           <View style={styles.cameraControls}>
             <TouchableOpacity
               style={styles.cameraButton}
               onPress={() => setShowCamera(false)}
+              disabled={isRecording}
             >
-              <Ionicons name="close" size={30} color="white" />
+              <Ionicons name={media.length > 0 ? 'checkmark' : 'close'} size={30} color="white" />
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.captureButton} onPress={takePicture}>
-              <View style={styles.captureButtonInner} />
+            <TouchableOpacity style={styles.captureButton} onPress={handleCapture}>
+              <View
+                style={[
+                  styles.captureButtonInner,
+                  cameraMode === 'video' && styles.captureButtonVideo,
+                  isRecording && styles.captureButtonRecording,
+                ]}
+              />
             </TouchableOpacity>
             
             <TouchableOpacity
@@ -175,6 +516,7 @@ const CameraScreen: React.FC = () => {
               onPress={() => {
                 setFacing(facing === 'back' ? 'front' : 'back');
               }}
+              disabled={isRecording}
             >
               <Ionicons name="camera-reverse" size={30} color="white" />
             </TouchableOpacity>
@@ -192,23 +534,17 @@ const CameraScreen: React.FC = () => {
           <Text style={styles.subtitle}>Help improve your community</Text>
         </View>
 
+        <OutboxStatus />
+
         {/* Photo Section */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Photo</Text>
-          {photo ? (
-            <View style={styles.photoContainer}>
-              <Image source={{ uri: photo }} style={styles.photo} />
-              <TouchableOpacity
-                style={styles.removePhotoButton}
-                onPress={() => setPhoto(null)}
-              >
-                <Ionicons name="close-circle" size={30} color="#e74c3c" />
-              </TouchableOpacity>
-            </View>
+          <Text style={styles.sectionTitle}>Photos & Videos</Text>
+          {media.length > 0 ? (
+            <CaptureTray media={media} onChange={setMedia} />
           ) : (
             <View style={styles.photoPlaceholder}>
               <Ionicons name="camera-outline" size={50} color="#bdc3c7" />
-              <Text style={styles.photoPlaceholderText}>No photo selected</Text>
+              <Text style={styles.photoPlaceholderText}>No photos or videos yet</Text>
             </View>
           )}
           
@@ -218,7 +554,7 @@ const CameraScreen: React.FC = () => {
               onPress={() => setShowCamera(true)}
             >
               <Ionicons name="camera" size={20} color="white" />
-              <Text style={styles.primaryButtonText}>Take Photo</Text>
+              <Text style={styles.primaryButtonText}>Open Camera</Text>
             </TouchableOpacity>
             
             <TouchableOpacity
@@ -231,6 +567,17 @@ const CameraScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Project Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Nearby Project</Text>
+          <ProjectPicker
+            latitude={reportLocation?.latitude ?? null}
+            longitude={reportLocation?.longitude ?? null}
+            selectedProjectId={selectedProject?.project_id ?? null}
+            onSelect={setSelectedProject}
+          />
+        </View>
+
         {/* Issue Type Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Issue Type</Text>
@@ -253,6 +600,32 @@ const CameraScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Severity Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Severity</Text>
+          <View style={styles.severityOptions}>
+            {severities.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.severityOption,
+                  severity === option.id && { backgroundColor: option.color, borderColor: option.color },
+                ]}
+                onPress={() => setSeverity(option.id)}
+              >
+                <Text
+                  style={[
+                    styles.severityOptionText,
+                    severity === option.id && styles.severityOptionTextActive,
+                  ]}
+                >
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         {/* Description Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Description</Text>
@@ -267,17 +640,63 @@ const CameraScreen: React.FC = () => {
           />
         </View>
 
+        {/* Condition Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Condition & Hazards</Text>
+          <ConditionForm value={structured} onChange={setStructured} />
+        </View>
+
+        {/* Observations Section */}
+        {attributeDefs.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Observations</Text>
+            <ObservationForm
+              key={reportId}
+              defs={attributeDefs}
+              values={attributeValues}
+              onChange={setAttributeValues}
+            />
+          </View>
+        )}
+
         {/* Location Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Location</Text>
           <View style={styles.locationInfo}>
             <Ionicons name="location" size={20} color="#3498db" />
-            <Text style={styles.locationText}>
-              {location
-                ? `${location.coords.latitude.toFixed(6)}, ${location.coords.longitude.toFixed(6)}`
-                : 'Getting location...'}
-            </Text>
+            <View style={styles.locationDetails}>
+              {address ? (
+                <Text style={styles.addressText}>{address}</Text>
+              ) : reportLocation && !adminAreasAvailable() ? (
+                <Text style={styles.addressMissing}>No boundary data in this build; addresses are not available</Text>
+              ) : null}
+              <Text style={styles.locationText}>
+                {reportLocation
+                  ? `${reportLocation.latitude.toFixed(6)}, ${reportLocation.longitude.toFixed(6)}`
+                  : 'Getting location...'}
+              </Text>
+            </View>
           </View>
+          {reportLocation && (
+            <View style={styles.locationSourceRow}>
+              <View style={styles.locationSource}>
+                <Ionicons name={locationSources[reportLocation.source].icon} size={14} color="#7f8c8d" />
+                <Text style={styles.locationSourceText}>{locationSources[reportLocation.source].label}</Text>
+              </View>
+              {reportLocation.source !== 'device' && location && (
+                <TouchableOpacity onPress={() => setReportLocation(deviceReportLocation(location))}>
+                  <Text style={styles.locationSourceAction}>Use device GPS</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {reportLocation && (
+            <LocationPicker
+              location={reportLocation}
+              gpsFix={gpsFix}
+              onChange={(adjusted, snapped) => setReportLocation({ ...adjusted, source: snapped ? 'project' : 'manual' })}
+            />
+          )}
         </View>
 
         {/* Submit Button */}
@@ -329,20 +748,6 @@ const styles = StyleSheet.create({
     color: '#2c3e50',
     marginBottom: 15,
   },
-  photoContainer: {
-    position: 'relative',
-    marginBottom: 15,
-  },
-  photo: {
-    width: '100%',
-    height: 200,
-    borderRadius: 8,
-  },
-  removePhotoButton: {
-    position: 'absolute',
-    top: 10,
-    right: 10,
-  },
   photoPlaceholder: {
     height: 200,
     backgroundColor: '#ecf0f1',
@@ -420,6 +825,28 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#2c3e50',
   },
+  severityOptions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  severityOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginHorizontal: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+  },
+  severityOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  severityOptionTextActive: {
+    color: '#fff',
+  },
   textInput: {
     borderWidth: 1,
     borderColor: '#e1e8ed',
@@ -436,11 +863,46 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
     borderRadius: 8,
   },
-  locationText: {
+  locationDetails: {
+    flex: 1,
     marginLeft: 10,
+  },
+  addressText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 2,
+  },
+  addressMissing: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#95a5a6',
+    marginBottom: 2,
+  },
+  locationText: {
     fontSize: 14,
     color: '#7f8c8d',
   },
+  locationSourceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  locationSource: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  locationSourceText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  locationSourceAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3498db',
+  },
   submitButton: {
     backgroundColor: '#2ecc71',
     margin: 20,
@@ -492,6 +954,50 @@ const styles = StyleSheet.create({
     borderRadius: 30,
     backgroundColor: '#e74c3c',
   },
+  captureButtonVideo: {
+    borderWidth: 4,
+    borderColor: '#c0392b',
+  },
+  captureButtonRecording: {
+    width: 30,
+    height: 30,
+    borderRadius: 6,
+  },
+  cameraTopBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 50,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 20,
+    padding: 4,
+  },
+  modeOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  modeOptionActive: {
+    backgroundColor: '#3498db',
+  },
+  modeOptionText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  recordingText: {
+    color: '#e74c3c',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  captureCountText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   button: {
     backgroundColor: '#3498db',
     padding: 15,
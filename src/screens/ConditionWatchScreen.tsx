@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NavigationProp, ParamListBase, useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  ConditionDiscrepancy,
+  DISCREPANCIES_PAGE_SIZE,
+  fetchConditionDiscrepancies,
+  RECENT_OBSERVATION_DAYS,
+} from '../lib/conditionComparison';
+import { getCondition } from '../lib/conditions';
+import { getProjectTypeIcon } from '../lib/projects';
+
+// Projects where citizens and the official rating disagree, largest and
+// freshest disagreement first
+const ConditionWatchScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const [projects, setProjects] = useState<ConditionDiscrepancy[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    loadProjects();
+  }, []);
+
+  const loadProjects = async () => {
+    try {
+      const firstPage = await fetchConditionDiscrepancies(0);
+      setProjects(firstPage);
+      setPage(0);
+      setHasMore(firstPage.length === DISCREPANCIES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading condition discrepancies:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (loading || refreshing || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    try {
+      const nextPage = await fetchConditionDiscrepancies(page + 1);
+      // Scores move as observations age, so a project can shift between pages
+      setProjects(current => [
+        ...current,
+        ...nextPage.filter(project => !current.some(existing => existing.projectId === project.projectId)),
+      ]);
+      setPage(page + 1);
+      setHasMore(nextPage.length === DISCREPANCIES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more condition discrepancies:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadProjects();
+  };
+
+  const renderProject = ({ item }: { item: ConditionDiscrepancy }) => {
+    const official = getCondition(item.conditionOfficial);
+    const observed = getCondition(item.observedCondition);
+    const worse = item.meanGap > 0;
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => navigation.navigate('ProjectCondition', { projectId: item.projectId })}
+      >
+        <View style={styles.cardHeader}>
+          <Ionicons name={getProjectTypeIcon(item.type)} size={18} color="#7f8c8d" />
+          <Text style={styles.cardTitle} numberOfLines={1}>{item.name}</Text>
+          <Ionicons name="chevron-forward" size={18} color="#bdc3c7" />
+        </View>
+        <View style={styles.comparison}>
+          <View style={styles.comparisonItem}>
+            <Text style={styles.comparisonLabel}>Official</Text>
+            <View style={[styles.conditionChip, { backgroundColor: official.color }]}>
+              <Text style={styles.conditionText}>{official.name}</Text>
+            </View>
+          </View>
+          <Ionicons name="arrow-forward" size={18} color="#bdc3c7" style={styles.comparisonArrow} />
+          <View style={styles.comparisonItem}>
+            <Text style={styles.comparisonLabel}>Citizens</Text>
+            <View style={[styles.conditionChip, { backgroundColor: observed.color }]}>
+              <Text style={styles.conditionText}>{observed.name}</Text>
+            </View>
+          </View>
+        </View>
+        <Text style={[styles.gapText, { color: worse ? '#e74c3c' : '#2ecc71' }]}>
+          {worse ? 'Rated worse' : 'Rated better'} by {Math.abs(item.meanGap).toFixed(1)} steps on average
+        </Text>
+        <Text style={styles.metaText}>
+          {item.observationCount} {item.observationCount === 1 ? 'observation' : 'observations'} · latest{' '}
+          {new Date(item.lastObservedAt).toLocaleDateString()} · {item.lastInspectedAt
+            ? `inspected ${new Date(item.lastInspectedAt).toLocaleDateString()}`
+            : 'never inspected'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    loading ? (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Ionicons name="checkmark-circle-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.emptyStateTitle}>No Disagreements</Text>
+        <Text style={styles.emptyStateText}>
+          Recent citizen observations match the official ratings.
+        </Text>
+      </View>
+    )
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={projects}
+        keyExtractor={(item) => item.projectId}
+        renderItem={renderProject}
+        ListHeaderComponent={
+          <Text style={styles.intro}>
+            Projects whose approved reports from the last {RECENT_OBSERVATION_DAYS} days, and since the last
+            inspection, disagree with the official DPWH rating.
+          </Text>
+        }
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#3498db" /> : null}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 15,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginHorizontal: 8,
+  },
+  comparison: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginBottom: 10,
+  },
+  comparisonItem: {
+    alignItems: 'flex-start',
+  },
+  comparisonLabel: {
+    fontSize: 11,
+    color: '#7f8c8d',
+    textTransform: 'uppercase',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  comparisonArrow: {
+    marginHorizontal: 12,
+    marginBottom: 6,
+  },
+  conditionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  conditionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  gapText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  footerLoader: {
+    marginVertical: 20,
+  },
+});
+
+export default ConditionWatchScreen;
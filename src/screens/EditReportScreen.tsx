@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp, ParamListBase, useNavigation, useRoute } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import CaptureTray from '../components/CaptureTray';
+import ConditionForm, { StructuredObservation } from '../components/ConditionForm';
+import LocationPicker from '../components/LocationPicker';
+import {
+  fetchReport,
+  ReportLockedError,
+  SubmittedMedia,
+  SubmittedReport,
+  updateMyReport,
+} from '../lib/myReports';
+import { countPhotos, LocationSource, ReportMedia, severities, Severity } from '../lib/reports';
+import { issueTypes } from '../lib/issueTypes';
+import { createPhotoMedia, createVideoMedia } from '../lib/imageProcessing';
+import { MAX_MEDIA_PER_REPORT, MAX_VIDEO_DURATION_SECONDS } from '../lib/config';
+import { LatLng } from '../lib/geo';
+import { ReportDetailParams } from './ReportDetailScreen';
+
+// Already uploaded media is shown in the tray through its public URLs
+const toTrayMedia = (item: SubmittedMedia): ReportMedia => ({
+  mediaId: item.mediaId,
+  kind: item.kind,
+  uri: item.url,
+  width: item.width ?? 0,
+  height: item.height ?? 0,
+  durationMs: item.durationMs ?? undefined,
+  thumbnailUri: item.thumbnailUrl ?? undefined,
+});
+
+// Lets the owner correct a pending report. The server rejects the change if
+// the report was moderated in the meantime.
+const EditReportScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const route = useRoute();
+  const { reportId } = route.params as ReportDetailParams;
+  const [report, setReport] = useState<SubmittedReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [media, setMedia] = useState<ReportMedia[]>([]);
+  const [issueType, setIssueType] = useState('other');
+  const [severity, setSeverity] = useState<Severity>('medium');
+  const [description, setDescription] = useState('');
+  const [structured, setStructured] = useState<StructuredObservation | null>(null);
+  const [location, setLocation] = useState<LatLng | null>(null);
+  // Set once the pin is moved; null keeps the stored location
+  const [locationSource, setLocationSource] = useState<LocationSource | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [reportId]);
+
+  const loadReport = async () => {
+    try {
+      const loaded = await fetchReport(reportId);
+      setReport(loaded);
+      if (loaded) {
+        setMedia(loaded.media.map(toTrayMedia));
+        setIssueType(loaded.issueType || 'other');
+        setSeverity(loaded.severity);
+        setDescription(loaded.text || '');
+        setStructured({
+          condition: loaded.observedCondition,
+          materials: loaded.observedMaterials,
+          hazards: loaded.observedHazards,
+          observedAt: loaded.observedAt,
+        });
+        if (loaded.latitude !== null && loaded.longitude !== null) {
+          setLocation({ latitude: loaded.latitude, longitude: loaded.longitude });
+        }
+      }
+    } catch (error) {
+      console.error('Error loading report:', error);
+      Alert.alert('Error', 'Failed to load the report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const remainingSlots = MAX_MEDIA_PER_REPORT - media.length;
+
+  const addMedia = async () => {
+    if (remainingSlots <= 0) {
+      Alert.alert('Limit Reached', `A report can have at most ${MAX_MEDIA_PER_REPORT} photos and videos.`);
+      return;
+    }
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images', 'videos'],
+        allowsMultipleSelection: true,
+        selectionLimit: remainingSlots,
+        videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
+        quality: 1,
+      });
+      if (result.canceled) {
+        return;
+      }
+
+      const picked: ReportMedia[] = [];
+      for (const asset of result.assets) {
+        if (asset.type === 'video') {
+          const durationMs = asset.duration ?? 0;
+          if (durationMs > MAX_VIDEO_DURATION_SECONDS * 1000) {
+            Alert.alert(
+              'Video Too Long',
+              `Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long. Trim it and try again.`
+            );
+            continue;
+          }
+          picked.push(await createVideoMedia(asset.uri, durationMs));
+        } else {
+          picked.push(await createPhotoMedia(asset.uri, asset.width, asset.height));
+        }
+      }
+      setMedia(current => [...current, ...picked].slice(0, MAX_MEDIA_PER_REPORT));
+    } catch (error) {
+      console.error('Error picking media:', error);
+      Alert.alert('Error', 'Failed to pick photos or videos');
+    }
+  };
+
+  const saveChanges = async () => {
+    if (!report || !structured) {
+      return;
+    }
+    if (countPhotos(media) === 0) {
+      Alert.alert('Missing Photo', 'A report needs at least one photo');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateMyReport(report, {
+        text: description.trim(),
+        severity,
+        issueType,
+        observedCondition: structured.condition,
+        observedMaterials: structured.materials,
+        observedHazards: structured.hazards,
+        observedAt: structured.observedAt,
+        location: locationSource && location ? { ...location, source: locationSource } : null,
+        media,
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error updating report:', error);
+      if (error instanceof ReportLockedError) {
+        Alert.alert('Report Reviewed', error.message);
+      } else {
+        Alert.alert('Error', 'Failed to save your changes. Check your connection and try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  if (!report || !structured || !report.isMine || report.status !== 'pending') {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="lock-closed-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.lockedText}>
+          Only your own reports can be edited, and only while they are waiting for review.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Media */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Photos & Videos</Text>
+        {media.length > 0 && <CaptureTray media={media} onChange={setMedia} />}
+        <TouchableOpacity style={styles.secondaryButton} onPress={addMedia}>
+          <Ionicons name="images" size={20} color="#3498db" />
+          <Text style={styles.secondaryButtonText}>Add from Gallery</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Issue Type */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Issue Type</Text>
+        <View style={styles.chips}>
+          {issueTypes.map(type => (
+            <TouchableOpacity
+              key={type.id}
+              style={[styles.chip, issueType === type.id && { backgroundColor: type.color, borderColor: type.color }]}
+              onPress={() => setIssueType(type.id)}
+            >
+              <Ionicons name={type.icon} size={16} color={issueType === type.id ? '#fff' : type.color} />
+              <Text style={[styles.chipText, issueType === type.id && styles.chipTextActive]}>{type.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Severity */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Severity</Text>
+        <View style={styles.chips}>
+          {severities.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, severity === option.id && { backgroundColor: option.color, borderColor: option.color }]}
+              onPress={() => setSeverity(option.id)}
+            >
+              <Text style={[styles.chipText, severity === option.id && styles.chipTextActive]}>{option.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Description */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Description</Text>
+        <TextInput
+          style={styles.textInput}
+          placeholder="Describe the issue in detail..."
+          multiline
+          numberOfLines={4}
+          value={description}
+          onChangeText={setDescription}
+          textAlignVertical="top"
+        />
+      </View>
+
+      {/* Condition */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Condition & Hazards</Text>
+        <ConditionForm value={structured} onChange={setStructured} />
+      </View>
+
+      {/* Location */}
+      {location && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Location</Text>
+          <LocationPicker
+            location={location}
+            gpsFix={null}
+            onChange={(adjusted, snapped) => {
+              setLocation(adjusted);
+              setLocationSource(snapped ? 'project' : 'manual');
+            }}
+          />
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.saveButton, isSaving && styles.disabledButton]}
+        onPress={saveChanges}
+        disabled={isSaving}
+      >
+        <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save Changes'}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: '#f8f9fa',
+  },
+  lockedText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 15,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3498db',
+    marginTop: 10,
+  },
+  secondaryButtonText: {
+    color: '#3498db',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    backgroundColor: '#f8f9fa',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7f8c8d',
+    marginLeft: 4,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 16,
+    minHeight: 100,
+    backgroundColor: '#fff',
+  },
+  saveButton: {
+    backgroundColor: '#2ecc71',
+    margin: 20,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#bdc3c7',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default EditReportScreen;
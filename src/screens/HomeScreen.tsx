@@ -1,14 +1,21 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { NavigationProp, ParamListBase, useFocusEffect, useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
+import { fetchNearbyReports, SubmittedReport } from '../lib/myReports';
+import { loadFeedOptions, locateForFeed } from '../lib/nearbyFeed';
+import { formatDistance, LatLng } from '../lib/geo';
+import NearbyReportCard from '../components/NearbyReportCard';
+
+const NEARBY_PREVIEW_COUNT = 3;
 
 interface QuickActionProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -32,26 +39,78 @@ const QuickAction: React.FC<QuickActionProps> = ({ icon, title, subtitle, onPres
 );
 
 const HomeScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [locating, setLocating] = useState(true);
+  const [nearbyReports, setNearbyReports] = useState<SubmittedReport[]>([]);
+  const [radiusM, setRadiusM] = useState<number | null>(null);
+
+  useEffect(() => {
+    locateForFeed()
+      .then(setOrigin)
+      .catch(error => {
+        console.error('Error getting location:', error);
+      })
+      .finally(() => setLocating(false));
+  }, []);
+
+  // Refresh on focus so a radius picked in the full feed applies here too
+  useFocusEffect(
+    useCallback(() => {
+      if (!origin) {
+        return;
+      }
+      loadFeedOptions()
+        .then(options => {
+          setRadiusM(options.radiusM);
+          return fetchNearbyReports(0, origin, options);
+        })
+        .then(reports => setNearbyReports(reports.slice(0, NEARBY_PREVIEW_COUNT)))
+        .catch(error => {
+          console.error('Error loading nearby reports:', error);
+        });
+    }, [origin])
+  );
 
   const handleReportIssue = () => {
     // Navigate to camera screen
-    navigation.navigate('Camera' as never);
+    navigation.navigate('Camera');
   };
 
   const handleViewMap = () => {
     // Navigate to map screen
-    navigation.navigate('Map' as never);
+    navigation.navigate('Map');
   };
 
   const handleMyReports = () => {
     // Navigate to reports screen
-    navigation.navigate('Reports' as never);
+    navigation.navigate('Reports');
+  };
+
+  const handlePrivacy = () => {
+    // Navigate to privacy screen
+    navigation.navigate('Privacy');
+  };
+
+  const handleNotifications = () => {
+    navigation.navigate('NotificationSettings');
+  };
+
+  const handleConditionWatch = () => {
+    navigation.navigate('ConditionWatch');
+  };
+
+  const handleNearbyFeed = () => {
+    navigation.navigate('NearbyFeed');
+  };
+
+  const handleOpenReport = (report: SubmittedReport) => {
+    navigation.navigate('ReportDetail', { reportId: report.reportId });
   };
 
   const handleEmergencyReport = () => {
     // Handle emergency reporting - go to camera for now
-    navigation.navigate('Camera' as never);
+    navigation.navigate('Camera');
   };
 
   return (
@@ -99,15 +158,66 @@ const HomeScreen: React.FC = () => {
             onPress={handleEmergencyReport}
             color="#f39c12"
           />
+
+          <QuickAction
+            icon="analytics"
+            title="Condition Watch"
+            subtitle="Projects citizens rate differently from DPWH"
+            onPress={handleConditionWatch}
+            color="#e67e22"
+          />
+
+          <QuickAction
+            icon="shield-checkmark"
+            title="Privacy"
+            subtitle="Manage your anonymous device ID"
+            onPress={handlePrivacy}
+            color="#9b59b6"
+          />
+
+          <QuickAction
+            icon="notifications"
+            title="Notifications"
+            subtitle="Choose which report updates to receive"
+            onPress={handleNotifications}
+            color="#1abc9c"
+          />
         </View>
 
-        {/* Recent Activity */}
+        {/* Near You */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Recent Activity</Text>
-          <View style={styles.activityContainer}>
-            <Text style={styles.noActivityText}>No recent activity</Text>
-            <Text style={styles.noActivitySubtext}>Your reported issues will appear here</Text>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Near You</Text>
+            {origin && (
+              <TouchableOpacity onPress={handleNearbyFeed}>
+                <Text style={styles.seeAllText}>See all</Text>
+              </TouchableOpacity>
+            )}
           </View>
+          {locating ? (
+            <ActivityIndicator style={styles.nearbyLoader} color="#3498db" />
+          ) : !origin ? (
+            <View style={styles.nearbyEmpty}>
+              <Text style={styles.nearbyEmptyText}>Location unavailable</Text>
+              <Text style={styles.nearbyEmptySubtext}>Allow location access to see reports around you</Text>
+            </View>
+          ) : nearbyReports.length === 0 ? (
+            <View style={styles.nearbyEmpty}>
+              <Text style={styles.nearbyEmptyText}>Nothing reported nearby</Text>
+              <Text style={styles.nearbyEmptySubtext}>
+                {radiusM ? `No approved reports within ${formatDistance(radiusM)}` : 'Approved reports around you will appear here'}
+              </Text>
+            </View>
+          ) : (
+            nearbyReports.map(report => (
+              <NearbyReportCard
+                key={report.reportId}
+                report={report}
+                origin={origin}
+                onPress={() => handleOpenReport(report)}
+              />
+            ))
+          )}
         </View>
 
         {/* Tips */}
@@ -193,18 +303,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#7f8c8d',
   },
-  activityContainer: {
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  sectionHeaderTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  seeAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  nearbyLoader: {
+    paddingVertical: 30,
+  },
+  nearbyEmpty: {
     alignItems: 'center',
     paddingVertical: 30,
   },
-  noActivityText: {
+  nearbyEmptyText: {
     fontSize: 16,
     color: '#7f8c8d',
     marginBottom: 5,
   },
-  noActivitySubtext: {
+  nearbyEmptySubtext: {
     fontSize: 14,
     color: '#bdc3c7',
+    textAlign: 'center',
   },
   tipContainer: {
     flexDirection: 'row',
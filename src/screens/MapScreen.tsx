@@ -1,29 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Alert,
   TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { NavigationProp, ParamListBase, useNavigation } from '@react-navigation/native';
 import MapView, { Marker, Region } from 'react-native-maps';
 import * as Location from 'expo-location';
 import { Ionicons } from '@expo/vector-icons';
-// Import will be done dynamically to avoid Metro bundler issues
 import GeoJSONLayer from '../components/GeoJSONLayer';
+import NearbyReportsFeed from '../components/NearbyReportsFeed';
+import FeatureDetailSheet from '../components/FeatureDetailSheet';
+import { getSupabase } from '../lib/supabase';
+import { getReportStatus, reportStatuses } from '../lib/reportStatus';
+import { fetchMapReports, SubmittedReport } from '../lib/myReports';
+import { getIssueType } from '../lib/issueTypes';
+import { fetchSourcedLayers, loadProjectFeatures, ProjectFeature, ProjectFeatures } from '../lib/projectTiles';
+import { PointCluster } from '../lib/clustering';
+import { conditionRatings } from '../lib/conditions';
+import {
+  defaultMapLayers,
+  isProjectLayer,
+  loadMapLayers,
+  MapLayerId,
+  mapLayers,
+  ProjectLayerId,
+  saveMapLayers,
+} from '../lib/mapLayers';
+import { getSymbology, loadSymbologyId, saveSymbologyId, symbologyPresets } from '../lib/symbology';
+import { nearestPointOnGeometry } from '../lib/geo';
+import { CameraParams } from './CameraScreen';
 
-interface ReportMarker {
-  id: string;
-  latitude: number;
-  longitude: number;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'resolved';
-  type: 'pothole' | 'streetlight' | 'traffic' | 'other';
-}
+const REGION_LOAD_DEBOUNCE_MS = 400;
 
 const MapScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [region, setRegion] = useState<Region>({
     latitude: 12.8797, // Center of Philippines
@@ -31,24 +47,48 @@ const MapScreen: React.FC = () => {
     latitudeDelta: 8.0, // Wider view to see entire Philippines
     longitudeDelta: 8.0,
   });
-  const [reports, setReports] = useState<ReportMarker[]>([]);
+  const [reports, setReports] = useState<SubmittedReport[]>([]);
   const [loading, setLoading] = useState(true);
-  const [geoJsonData, setGeoJsonData] = useState<any[]>([]);
-  const [allGeoJsonData, setAllGeoJsonData] = useState<any[]>([]); // Store complete dataset
-  const [infrastructureType, setInfrastructureType] = useState<'bridges' | 'highways' | 'kilometer-posts'>('bridges'); // Default to bridges
+  // Features around the visible region only, per DPWH layer; see lib/projectTiles
+  const [layerData, setLayerData] = useState<Partial<Record<ProjectLayerId, ProjectFeatures>>>({});
+  const [loadingFeatures, setLoadingFeatures] = useState(false);
+  const [activeLayers, setActiveLayers] = useState<MapLayerId[]>(defaultMapLayers);
+  // DPWH layers the server has data sources for; null offers them all
+  const [sourcedLayers, setSourcedLayers] = useState<ProjectLayerId[] | null>(null);
+  // Preset colouring DPWH features by their attributes; null for layer colours
+  const [symbologyId, setSymbologyId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
+  // DPWH feature shown in the detail sheet
+  const [selectedFeature, setSelectedFeature] = useState<ProjectFeature | null>(null);
+  const mapRef = useRef<MapView>(null);
+  const regionRef = useRef(region);
+  const loadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inFlight = useRef<AbortController | null>(null);
 
   useEffect(() => {
     getCurrentLocation();
-    // Load mock reports for demonstration
-    loadMockReports();
-    // Load GeoJSON data
-    loadGeoJSONData();
+    loadReports();
+    loadMapLayers().then(setActiveLayers);
+    fetchSourcedLayers().then(setSourcedLayers);
+    loadSymbologyId().then(setSymbologyId);
+    return () => {
+      if (loadTimer.current) {
+        clearTimeout(loadTimer.current);
+      }
+      inFlight.current?.abort();
+    };
   }, []);
 
-  // Reload data when infrastructure type changes
+  // Reload data when layers are switched on or off. This load covers the
+  // current region, so a pan still waiting for its debounce is dropped;
+  // firing later it would restore the old layer set.
   useEffect(() => {
-    loadGeoJSONData();
-  }, [infrastructureType]);
+    if (loadTimer.current) {
+      clearTimeout(loadTimer.current);
+      loadTimer.current = null;
+    }
+    loadVisibleFeatures(regionRef.current, activeLayers);
+  }, [activeLayers]);
 
   const getCurrentLocation = async () => {
     try {
@@ -70,12 +110,6 @@ const MapScreen: React.FC = () => {
         latitudeDelta: 0.0922,
         longitudeDelta: 0.0421,
       });
-      
-      // Update nearby features when location is obtained
-      if (allGeoJsonData.length > 0) {
-        updateNearbyFeatures(currentLocation.coords.latitude, currentLocation.coords.longitude);
-      }
-      
       setLoading(false);
     } catch (error) {
       console.error('Error getting location:', error);
@@ -84,336 +118,101 @@ const MapScreen: React.FC = () => {
     }
   };
 
-  const loadMockReports = () => {
-    // Mock data for demonstration
-    const mockReports: ReportMarker[] = [
-      {
-        id: '1',
-        latitude: 37.78825,
-        longitude: -122.4324,
-        title: 'Pothole on Main Street',
-        description: 'Large pothole causing traffic issues',
-        status: 'pending',
-        type: 'pothole',
-      },
-      {
-        id: '2',
-        latitude: 37.78925,
-        longitude: -122.4334,
-        title: 'Broken Streetlight',
-        description: 'Streetlight not working at night',
-        status: 'in_progress',
-        type: 'streetlight',
-      },
-    ];
-    setReports(mockReports);
-  };
-
-  const loadGeoJSONData = async () => {
+  const loadReports = async () => {
     try {
-      console.log(`🔄 Loading ${infrastructureType} data from Supabase...`);
-      console.log('🔧 Environment check:', {
-        hasSupabaseUrl: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
-        hasSupabaseKey: !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-      });
-      
-      // Create supabase client using require to avoid Metro bundler issues
-      const { createClient } = require('@supabase/supabase-js');
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-      const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-      
-      if (!supabaseUrl || !supabaseKey) {
-        console.error('❌ Missing Supabase environment variables');
-        setAllGeoJsonData([]);
-        setGeoJsonData([]);
-        return;
-      }
-      
-      console.log('🔗 Connecting to Supabase:', supabaseUrl.substring(0, 30) + '...');
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      // Map infrastructure type to project type
-      let projectType: string;
-      if (infrastructureType === 'bridges') {
-        projectType = 'bridge';
-      } else if (infrastructureType === 'highways') {
-        projectType = 'road';
-      } else {
-        projectType = 'other'; // kilometer posts
-      }
-      
-      // Query projects from Supabase with spatial data
-      console.log(`🔍 Querying projects with type: "${projectType}"`);
-      const { data: projects, error } = await supabase
-        .from('projects')
-        .select('project_id, name, type, city, barangay, geom, raw')
-        .eq('type', projectType)
-        .order('project_id') // Order to ensure we get diverse geographic distribution
-        .limit(50000); // Very high limit to get ALL bridges from database
-      
-      console.log('🔍 Query result:', { 
-        error: error, 
-        dataLength: projects?.length,
-        hasData: !!projects 
-      });
-      
-      if (error) {
-        console.error('❌ Supabase query error:', error);
-        setAllGeoJsonData([]);
-        setGeoJsonData([]);
-        return;
-      }
-      
-      if (!projects || projects.length === 0) {
-        console.warn(`⚠️ No ${infrastructureType} found in database`);
-        setAllGeoJsonData([]);
-        setGeoJsonData([]);
-        return;
-      }
-      
-      console.log(`✅ Loaded ${projects.length} ${infrastructureType} from Supabase`);
-      console.log('📋 Sample project data:', projects[0]); // Debug log
-      
-      // Convert Supabase data to GeoJSON format
-      const geoJsonFeatures = (projects || [])
-        .filter(project => project.geom) // Only include projects with geometry
-        .map(project => {
-          let geometry = project.geom;
-          
-          // Handle different geometry formats from PostGIS
-          if (typeof geometry === 'string') {
-            try {
-              geometry = JSON.parse(geometry);
-            } catch (e) {
-              console.warn('Failed to parse geometry:', e);
-              return null;
-            }
-          }
-          
-          return {
-            type: 'Feature',
-            geometry: geometry,
-            properties: {
-              project_id: project.project_id,
-              name: project.name,
-              type: project.type,
-              city: project.city,
-              barangay: project.barangay,
-              ...project.raw // Include original properties
-            }
-          };
-        })
-        .filter(feature => feature !== null); // Remove invalid features
-      
-      console.log(`🗺️ Created ${geoJsonFeatures.length} GeoJSON features`);
-      
-      // Debug: Log sample geometry to see format
-      if (geoJsonFeatures.length > 0) {
-        console.log('🔍 Sample geometry:', JSON.stringify(geoJsonFeatures[0].geometry, null, 2));
-        console.log('🔍 Sample properties:', geoJsonFeatures[0].properties);
-      }
-      
-      const geoJsonData = [{
-        type: 'FeatureCollection',
-        features: geoJsonFeatures
-      }];
-      
-      setAllGeoJsonData(geoJsonData);
-      
-      console.log('🗺️ DPWH INFRASTRUCTURE DATA LOADED FROM SUPABASE! 🎉');
-      console.log(`📊 Total: ${geoJsonFeatures.length} features loaded`);
-      
-      // TEMPORARY: Show all data to check how many bridges are actually loading
-      console.log('🚨 SHOWING ALL DATA - CHECK TOTAL BRIDGE COUNT');
-      setGeoJsonData(geoJsonData);
-      
-      // Filter nearby features if user location is available
-      // if (location) {
-      //   updateNearbyFeatures(location.coords.latitude, location.coords.longitude);
-      // } else {
-      //   // If no location yet, show everything (will be filtered when location is obtained)
-      //   setGeoJsonData(geoJsonData);
-      // }
+      setReports(await fetchMapReports());
     } catch (error) {
-      console.error('Error loading data from Supabase:', error);
-      setGeoJsonData([]);
+      console.error('Error loading reports:', error);
     }
   };
 
-  // Update nearby features based on user location
-  const updateNearbyFeatures = (userLat: number, userLon: number) => {
-    if (!allGeoJsonData || allGeoJsonData.length === 0) {
-      console.log('⚠️ No GeoJSON data available for filtering');
-      return;
+  // Debounced so a fling loads once, when the map settles
+  const scheduleLoad = (target: Region, layers: MapLayerId[]) => {
+    if (loadTimer.current) {
+      clearTimeout(loadTimer.current);
     }
-    
-    if (typeof userLat !== 'number' || typeof userLon !== 'number' || 
-        isNaN(userLat) || isNaN(userLon)) {
-      console.warn('⚠️ Invalid coordinates provided to updateNearbyFeatures');
+    loadTimer.current = setTimeout(() => loadVisibleFeatures(target, layers), REGION_LOAD_DEBOUNCE_MS);
+  };
+
+  const loadVisibleFeatures = async (target: Region, layers: MapLayerId[]) => {
+    // A newer pan or layer switch cancels the requests still in flight
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+
+    const projectLayers = layers.filter(isProjectLayer);
+    if (!getSupabase() || projectLayers.length === 0) {
+      setLayerData({});
+      setLoadingFeatures(false);
       return;
     }
-    
-    console.log(`🔍 Filtering features within 10km of location: ${userLat.toFixed(4)}, ${userLon.toFixed(4)}`);
-    
+
+    setLoadingFeatures(true);
     try {
-      const nearbyData = filterNearbyFeatures(allGeoJsonData, userLat, userLon, 10);
-      const nearbyCount = nearbyData.reduce((sum, dataset) => sum + (dataset.features?.length || 0), 0);
-      
-      console.log(`📍 Found ${nearbyCount} features within 10km`);
-      setGeoJsonData(nearbyData);
+      const collections = await Promise.all(
+        projectLayers.map(layer => loadProjectFeatures(layer, target, controller.signal))
+      );
+      if (controller.signal.aborted) {
+        return;
+      }
+      const loaded: Partial<Record<ProjectLayerId, ProjectFeatures>> = {};
+      projectLayers.forEach((layer, index) => {
+        loaded[layer] = collections[index]!;
+      });
+      setLayerData(loaded);
     } catch (error) {
-      console.error('Error filtering nearby features:', error);
-      setGeoJsonData([]);
+      console.error('Error loading data from Supabase:', error);
+    } finally {
+      if (inFlight.current === controller) {
+        setLoadingFeatures(false);
+      }
     }
   };
 
-  const getMarkerColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return '#e74c3c';
-      case 'in_progress':
-        return '#f39c12';
-      case 'resolved':
-        return '#2ecc71';
-      default:
-        return '#95a5a6';
-    }
-  };
+  const userOrigin = location
+    ? { latitude: location.coords.latitude, longitude: location.coords.longitude }
+    : null;
 
-  // Calculate distance between two coordinates in kilometers
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  const handleMarkerPress = (report: SubmittedReport) => {
+    navigation.navigate('ReportDetail', { reportId: report.reportId });
   };
 
-  // Filter features within 10km of user location
-  const filterNearbyFeatures = (data: any[], userLat: number, userLon: number, radiusKm: number = 10) => {
-    if (!data || !Array.isArray(data)) {
-      console.warn('⚠️ Invalid data provided to filterNearbyFeatures');
-      return [];
-    }
-
-    return data.map(dataset => {
-      if (!dataset || !dataset.features || !Array.isArray(dataset.features)) {
-        console.warn('⚠️ Invalid dataset in filterNearbyFeatures');
-        return { type: 'FeatureCollection', features: [] };
-      }
+  const handleFeaturePress = (feature: ProjectFeature) => {
+    setSelectedFeature(feature);
+  };
 
-      return {
-        ...dataset,
-        features: dataset.features.filter((feature: any) => {
-          if (!feature || !feature.geometry || !feature.geometry.coordinates) return false;
-        
-        let featureLat: number, featureLon: number;
-        
-        try {
-          if (feature.geometry.type === 'Point') {
-            if (!Array.isArray(feature.geometry.coordinates) || feature.geometry.coordinates.length < 2) return false;
-            featureLat = feature.geometry.coordinates[1];
-            featureLon = feature.geometry.coordinates[0];
-          } else if (feature.geometry.type === 'LineString') {
-            if (!Array.isArray(feature.geometry.coordinates) || feature.geometry.coordinates.length === 0) return false;
-            if (!Array.isArray(feature.geometry.coordinates[0]) || feature.geometry.coordinates[0].length < 2) return false;
-            // Use first coordinate of line
-            featureLat = feature.geometry.coordinates[0][1];
-            featureLon = feature.geometry.coordinates[0][0];
-          } else if (feature.geometry.type === 'MultiLineString') {
-            if (!Array.isArray(feature.geometry.coordinates) || feature.geometry.coordinates.length === 0) return false;
-            if (!Array.isArray(feature.geometry.coordinates[0]) || feature.geometry.coordinates[0].length === 0) return false;
-            if (!Array.isArray(feature.geometry.coordinates[0][0]) || feature.geometry.coordinates[0][0].length < 2) return false;
-            // Use first coordinate of first line
-            featureLat = feature.geometry.coordinates[0][0][1];
-            featureLon = feature.geometry.coordinates[0][0][0];
-          } else {
-            return false;
-          }
-          
-          // Validate coordinates are numbers
-          if (typeof featureLat !== 'number' || typeof featureLon !== 'number' || 
-              isNaN(featureLat) || isNaN(featureLon)) {
-            return false;
-          }
-        } catch (error) {
-          console.warn('⚠️ Error extracting coordinates from feature:', error);
-          return false;
-        }
-        
-        const distance = calculateDistance(userLat, userLon, featureLat, featureLon);
-        return distance <= radiusKm;
-        })
-      };
-    });
+  // Opens the report form linked to the feature's project, located on the
+  // feature at the point closest to the user (or to the map centre)
+  const handleReportIssue = (feature: ProjectFeature) => {
+    setSelectedFeature(null);
+    const origin = userOrigin ?? { latitude: region.latitude, longitude: region.longitude };
+    const point = nearestPointOnGeometry(feature.geometry, origin) ?? origin;
+    const props = feature.properties;
+    const params: CameraParams = {
+      projectId: props.project_id,
+      projectName: props.name,
+      projectType: props.type,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      requestedAt: Date.now(),
+    };
+    navigation.navigate('Camera', params);
   };
 
-  const handleMarkerPress = (report: ReportMarker) => {
-    Alert.alert(
-      report.title,
-      `${report.description}\n\nStatus: ${report.status.replace('_', ' ').toUpperCase()}`,
-      [{ text: 'OK' }]
-    );
+  const handleOpenReport = (reportId: string) => {
+    setSelectedFeature(null);
+    navigation.navigate('ReportDetail', { reportId });
   };
 
-  const handleFeaturePress = (feature: any) => {
-    const props = feature.properties;
-    
-    if (props.BR_NAME) {
-      // Bridge data with comprehensive details
-      const details = [
-        `🌉 Bridge: ${props.BR_NAME}`,
-        `📍 Location: ${props.BRGY}, ${props.MUNICIPAL}, ${props.PROVINCE}`,
-        `🛣️ Road: ${props.ROAD_NAME}`,
-        `📏 Length: ${props.BR_LENGTH}m | Width: ${props.BR_WIDTH}m`,
-        `🏗️ Type: ${props.BR_TYPE1} ${props.BR_TYPE2}`,
-        `📅 Built: ${props.Actual_Year || props.YR_CONST}`,
-        `⚡ Condition: ${props.CONDITION}`,
-        `🚛 Load Limit: ${props.LOAD_LIMIT} tons`,
-        `🚗 Lanes: ${props.NUM_LANES} | Spans: ${props.NUM_SPAN}`,
-        `⚠️ Issues: ${props.REMARKS || 'None'}`,
-        `🏢 DEO: ${props.DEO}`,
-        `🆔 Bridge ID: ${props.BRIDGE_ID}`,
-      ].join('\n');
-      
-      Alert.alert(`${props.BR_NAME}`, details, [{ text: 'OK' }]);
-    } else if (props.KM_POST) {
-      // Kilometer Post data
-      const details = [
-        `📍 Kilometer Post: ${props.KM_POST}`,
-        `🛣️ Road: ${props.ROAD_NAME}`,
-        `🏝️ Island: ${props.ISLAND}`,
-        `🌏 Region: ${props.REGION}`,
-        `📍 Province: ${props.PROVINCE}`,
-        `🏢 DEO: ${props.DEO}`,
-        `🗳️ District: ${props.CONG_DIST}`,
-      ].join('\n');
-      
-      Alert.alert(`📏 ${props.KM_POST}`, details, [{ text: 'OK' }]);
-    } else if (props.SITE_NAME) {
-      // Highway data
-      const details = [
-        `🛣️ Route: ${props.SITE_NAME}`,
-        `📏 Length: ${(props.Shape__Length / 1000).toFixed(1)}km`,
-        `🔢 Route Number: ${props.ROUTE_NO || 'N/A'}`,
-        `🌏 Region: ${props.SUPER_REGI || 'N/A'}`,
-        `🚢 Type: ${props.NAUTICAL || 'Highway'} Route`,
-        `🏝️ Island Group: ${props.ISLAND || 'N/A'}`,
-      ].join('\n');
-      
-      Alert.alert(`${props.SITE_NAME}`, details, [{ text: 'OK' }]);
-    } else {
-      // Generic feature
-      Alert.alert(
-        'Infrastructure Feature',
-        `Type: ${feature.geometry.type}\nClick for more details`,
-        [{ text: 'OK' }]
-      );
-    }
+  // Zoom to the cluster's extent so it breaks apart
+  const handleClusterPress = (cluster: PointCluster) => {
+    mapRef.current?.fitToCoordinates(
+      [
+        { latitude: cluster.minLatitude, longitude: cluster.minLongitude },
+        { latitude: cluster.maxLatitude, longitude: cluster.maxLongitude },
+      ],
+      { edgePadding: { top: 60, right: 60, bottom: 60, left: 60 }, animated: true }
+    );
   };
 
   const centerOnLocation = () => {
@@ -424,118 +223,254 @@ const MapScreen: React.FC = () => {
         latitudeDelta: 0.0922,
         longitudeDelta: 0.0421,
       });
-      // Update nearby features when centering on location
-      updateNearbyFeatures(location.coords.latitude, location.coords.longitude);
     }
   };
 
-  // Handle map region changes to update nearby features
+  // Handle map region changes to load the features now in view
   const handleRegionChange = (newRegion: Region) => {
     setRegion(newRegion);
-    // Update nearby features based on map center
-    updateNearbyFeatures(newRegion.latitude, newRegion.longitude);
+    regionRef.current = newRegion;
+    scheduleLoad(newRegion, activeLayers);
+  };
+
+  const toggleLayer = (id: MapLayerId) => {
+    const next = activeLayers.includes(id)
+      ? activeLayers.filter(layer => layer !== id)
+      : [...activeLayers, id];
+    setActiveLayers(next);
+    saveMapLayers(next);
   };
 
+  const selectSymbology = (id: string | null) => {
+    setSymbologyId(id);
+    saveSymbologyId(id);
+  };
+
+  const symbology = getSymbology(symbologyId);
+
+  const isInRegion = (latitude: number, longitude: number) =>
+    Math.abs(latitude - region.latitude) <= region.latitudeDelta / 2
+    && Math.abs(longitude - region.longitude) <= region.longitudeDelta / 2;
+
+  // A layer without sources would always be empty, so it gets no toggle
+  const offeredLayers = mapLayers.filter(
+    layer => !isProjectLayer(layer.id) || !sourcedLayers || sourcedLayers.includes(layer.id)
+  );
+  const visibleLayers = offeredLayers.filter(layer => activeLayers.includes(layer.id));
+  // Layers thinned at this zoom; zooming in shows the rest
+  const truncatedLayers = visibleLayers.filter(layer => isProjectLayer(layer.id) && layerData[layer.id]?.truncated);
+
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>Public Works Map</Text>
-        <Text style={styles.subtitle}>View reported issues in your area</Text>
+      <View style={[styles.header, styles.headerRow]}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>Public Works Map</Text>
+          <Text style={styles.subtitle}>View reported issues in your area</Text>
+        </View>
+        <View style={styles.viewToggle}>
+          {(['map', 'list'] as const).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.viewToggleButton, viewMode === mode && styles.viewToggleButtonActive]}
+              onPress={() => setViewMode(mode)}
+            >
+              <Ionicons
+                name={mode === 'map' ? 'map-outline' : 'list-outline'}
+                size={20}
+                color={viewMode === mode ? '#fff' : '#3498db'}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
-      <View style={styles.filterContainer}>
-        <TouchableOpacity
-          style={[styles.filterButton, infrastructureType === 'bridges' && styles.filterButtonActive]}
-          onPress={() => setInfrastructureType('bridges')}
-        >
-          <Ionicons name="git-branch" size={20} color={infrastructureType === 'bridges' ? '#fff' : '#3498db'} />
-          <Text style={[styles.filterButtonText, infrastructureType === 'bridges' && styles.filterButtonTextActive]}>Bridges</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.filterButton, infrastructureType === 'highways' && styles.filterButtonActive]}
-          onPress={() => setInfrastructureType('highways')}
-        >
-          <Ionicons name="car" size={20} color={infrastructureType === 'highways' ? '#fff' : '#3498db'} />
-          <Text style={[styles.filterButtonText, infrastructureType === 'highways' && styles.filterButtonTextActive]}>Highways</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.filterButton, infrastructureType === 'kilometer-posts' && styles.filterButtonActive]}
-          onPress={() => setInfrastructureType('kilometer-posts')}
-        >
-          <Ionicons name="locate" size={20} color={infrastructureType === 'kilometer-posts' ? '#fff' : '#3498db'} />
-          <Text style={[styles.filterButtonText, infrastructureType === 'kilometer-posts' && styles.filterButtonTextActive]}>KM Posts</Text>
-        </TouchableOpacity>
-      </View>
+      {/* Approved reports around the user as a list */}
+      {viewMode === 'list' ? (
+        <NearbyReportsFeed
+          origin={userOrigin}
+          locating={loading}
+        />
+      ) : (
+        <>
+          {/* Layer manager */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.filterContainer}
+            contentContainerStyle={styles.filterContent}
+          >
+            {offeredLayers.map(layer => {
+              const active = activeLayers.includes(layer.id);
+              return (
+                <TouchableOpacity
+                  key={layer.id}
+                  style={[
+                    styles.filterButton,
+                    { borderColor: layer.color },
+                    active && { backgroundColor: layer.color },
+                  ]}
+                  onPress={() => toggleLayer(layer.id)}
+                >
+                  <Ionicons name={layer.icon} size={18} color={active ? '#fff' : layer.color} />
+                  <Text style={[styles.filterButtonText, { color: active ? '#fff' : layer.color }]}>{layer.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
 
-      <View style={styles.mapContainer}>
-        <MapView
-          style={styles.map}
-          region={region}
-          onRegionChangeComplete={handleRegionChange}
-          showsUserLocation={true}
-          showsMyLocationButton={false}
-        >
-          {/* Mock reports */}
-          {reports.map((report) => (
-            <Marker
-              key={report.id}
-              coordinate={{
-                latitude: report.latitude,
-                longitude: report.longitude,
-              }}
-              title={report.title}
-              description={report.description}
-              pinColor={getMarkerColor(report.status)}
-              onPress={() => handleMarkerPress(report)}
-            />
-          ))}
-          
-          {/* DPWH Infrastructure Data */}
-          {geoJsonData && Array.isArray(geoJsonData) && geoJsonData.map((data, index) => (
-                 <GeoJSONLayer
-                   key={`geojson-${index}`}
-                   data={data}
-                   strokeColor={
-                     index === 0 ? '#FF6B6B' :  // Red - Highway Layer 0
-                     index === 1 ? '#4ECDC4' :  // Teal - Highway Layer 1
-                     index === 2 ? '#9B59B6' :  // Purple - Highway Layer 2
-                     index === 3 ? '#E67E22' :  // Orange - Highway Layer 3
-                     index === 4 ? '#2ECC71' :  // Green - Complete Bridge Inventory
-                     '#F1C40F'                  // Yellow - Complete Kilometer Posts
-                   }
-                   strokeWidth={index === 5 ? 3 : 2} // Thicker for kilometer posts
-                   onFeaturePress={handleFeaturePress}
-                 />
-               ))}
-        </MapView>
-
-        {/* Location Button */}
-        <TouchableOpacity
-          style={styles.locationButton}
-          onPress={centerOnLocation}
-        >
-          <Ionicons name="locate" size={24} color="#3498db" />
-        </TouchableOpacity>
-      </View>
+          {/* Style DPWH features by condition, age or load limit */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.styleContainer}
+            contentContainerStyle={styles.styleContent}
+          >
+            <Text style={styles.styleLabel}>Style</Text>
+            {[null, ...symbologyPresets].map(preset => {
+              const active = (preset?.id ?? null) === (symbology?.id ?? null);
+              return (
+                <TouchableOpacity
+                  key={preset?.id ?? 'default'}
+                  style={[styles.styleButton, active && styles.styleButtonActive]}
+                  onPress={() => selectSymbology(preset?.id ?? null)}
+                >
+                  <Text style={[styles.styleButtonText, active && styles.styleButtonTextActive]}>
+                    {preset?.name ?? 'Layer Colours'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
 
-      {/* Legend */}
-      <View style={styles.legend}>
-        <Text style={styles.legendTitle}>Status Legend</Text>
-        <View style={styles.legendItems}>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendColor, { backgroundColor: '#e74c3c' }]} />
-            <Text style={styles.legendText}>Pending</Text>
-          </View>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendColor, { backgroundColor: '#f39c12' }]} />
-            <Text style={styles.legendText}>In Progress</Text>
+          <View style={styles.mapContainer}>
+            <MapView
+              ref={mapRef}
+              style={styles.map}
+              region={region}
+              onRegionChangeComplete={handleRegionChange}
+              showsUserLocation={true}
+              showsMyLocationButton={false}
+            >
+              {/* DPWH infrastructure, one layer per toggle */}
+              {visibleLayers.map(layer => {
+                const data = isProjectLayer(layer.id) ? layerData[layer.id] : undefined;
+                return data ? (
+                  <GeoJSONLayer
+                    key={layer.id}
+                    data={data}
+                    strokeColor={layer.color}
+                    strokeWidth={layer.strokeWidth}
+                    onFeaturePress={handleFeaturePress}
+                    clusterRegion={region}
+                    onClusterPress={handleClusterPress}
+                    symbology={symbology}
+                  />
+                ) : null;
+              })}
+
+              {/* Citizen reports */}
+              {activeLayers.includes('reports') && reports.map((report) => (
+                <Marker
+                  key={report.reportId}
+                  coordinate={{
+                    latitude: report.latitude!,
+                    longitude: report.longitude!,
+                  }}
+                  title={report.projectName || getIssueType(report.issueType).name}
+                  description={[getReportStatus(report.status).name, report.address].filter(Boolean).join(' · ')}
+                  pinColor={getReportStatus(report.status).color}
+                  onCalloutPress={() => handleMarkerPress(report)}
+                />
+              ))}
+            </MapView>
+
+            {(loadingFeatures || truncatedLayers.length > 0) && (
+              <View style={styles.layerStatus}>
+                {loadingFeatures ? (
+                  <ActivityIndicator size="small" color="#3498db" />
+                ) : (
+                  <Text style={styles.layerStatusText}>
+                    Zoom in to see all {truncatedLayers.map(layer => layer.name).join(', ')}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Location Button */}
+            <TouchableOpacity
+              style={styles.locationButton}
+              onPress={centerOnLocation}
+            >
+              <Ionicons name="locate" size={24} color="#3498db" />
+            </TouchableOpacity>
           </View>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendColor, { backgroundColor: '#2ecc71' }]} />
-            <Text style={styles.legendText}>Resolved</Text>
+
+          {/* Legend for the layers switched on */}
+          <View style={styles.legend}>
+            {visibleLayers.length === 0 ? (
+              <Text style={styles.legendText}>No layers selected</Text>
+            ) : visibleLayers.map(layer => {
+              const data = isProjectLayer(layer.id) ? layerData[layer.id] : undefined;
+              const empty = layer.id === 'reports'
+                ? !reports.some(report => isInRegion(report.latitude!, report.longitude!))
+                : data?.features.length === 0;
+              return (
+                <View key={layer.id} style={styles.legendRow}>
+                  <View
+                    style={[
+                      layer.geometry === 'line' ? styles.legendLine : styles.legendColor,
+                      { backgroundColor: layer.color },
+                    ]}
+                  />
+                  <Text style={styles.legendLabel}>{layer.name}</Text>
+                  {empty ? (
+                    <Text style={styles.legendText}>None in view</Text>
+                  ) : layer.id === 'reports' ? (
+                    reportStatuses.map(status => (
+                      <View key={status.id} style={styles.legendItem}>
+                        <View style={[styles.legendColor, { backgroundColor: status.color }]} />
+                        <Text style={styles.legendText}>{status.name}</Text>
+                      </View>
+                    ))
+                  ) : layer.id === 'bridges' && !symbology ? (
+                    // Bridge clusters take the colour of their worst condition
+                    conditionRatings.map(condition => (
+                      <View key={condition.id} style={styles.legendItem}>
+                        <View style={[styles.legendColor, { backgroundColor: condition.color }]} />
+                        <Text style={styles.legendText}>{condition.name}</Text>
+                      </View>
+                    ))
+                  ) : null}
+                </View>
+              );
+            })}
+            {symbology && visibleLayers.some(layer => isProjectLayer(layer.id)) && (
+              <View style={styles.legendSymbology}>
+                <View style={styles.legendRow}>
+                  <Text style={styles.legendLabel}>{symbology.name}</Text>
+                  {symbology.classes.map(symbolClass => (
+                    <View key={symbolClass.label} style={styles.legendItem}>
+                      <View style={[styles.legendColor, { backgroundColor: symbolClass.color }]} />
+                      <Text style={styles.legendText}>{symbolClass.label}</Text>
+                    </View>
+                  ))}
+                </View>
+                <Text style={styles.legendNote}>
+                  {symbology.description}. Larger symbols need attention; features without a value keep their layer colour. Clusters take the colour of their most severe feature.
+                </Text>
+              </View>
+            )}
           </View>
-        </View>
-      </View>
+        </>
+      )}
+
+      <FeatureDetailSheet
+        feature={selectedFeature}
+        origin={userOrigin}
+        onClose={() => setSelectedFeature(null)}
+        onReportIssue={handleReportIssue}
+        onOpenReport={handleOpenReport}
+      />
     </SafeAreaView>
   );
 };
@@ -551,6 +486,27 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e1e8ed',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerText: {
+    flex: 1,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  viewToggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  viewToggleButtonActive: {
+    backgroundColor: '#3498db',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -568,6 +524,25 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
+  layerStatus: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.15,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  layerStatusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
   locationButton: {
     position: 'absolute',
     top: 20,
@@ -593,19 +568,22 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#e1e8ed',
   },
-  legendTitle: {
-    fontSize: 16,
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    paddingVertical: 3,
+  },
+  legendLabel: {
+    fontSize: 14,
     fontWeight: '600',
     color: '#2c3e50',
-    marginBottom: 10,
-  },
-  legendItems: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
+    marginRight: 10,
   },
   legendItem: {
     flexDirection: 'row',
     alignItems: 'center',
+    marginRight: 8,
   },
   legendColor: {
     width: 12,
@@ -613,40 +591,86 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     marginRight: 5,
   },
+  legendLine: {
+    width: 18,
+    height: 4,
+    borderRadius: 2,
+    marginRight: 5,
+  },
   legendText: {
-    fontSize: 14,
+    fontSize: 13,
     color: '#7f8c8d',
   },
   filterContainer: {
-    flexDirection: 'row',
+    flexGrow: 0,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e1e8ed',
+  },
+  styleContainer: {
+    flexGrow: 0,
     backgroundColor: '#fff',
-    paddingHorizontal: 20,
-    paddingVertical: 15,
-    justifyContent: 'space-between',
     borderBottomWidth: 1,
     borderBottomColor: '#e1e8ed',
   },
+  styleContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  styleLabel: {
+    alignSelf: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#7f8c8d',
+    marginRight: 10,
+  },
+  styleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#ecf0f1',
+  },
+  styleButtonActive: {
+    backgroundColor: '#2c3e50',
+  },
+  styleButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  styleButtonTextActive: {
+    color: '#fff',
+  },
+  legendSymbology: {
+    marginTop: 6,
+    paddingTop: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#ecf0f1',
+  },
+  legendNote: {
+    fontSize: 12,
+    color: '#bdc3c7',
+    marginTop: 2,
+  },
+  filterContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
   filterButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: 15,
-    paddingVertical: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
     borderRadius: 20,
     borderWidth: 1,
-    borderColor: '#3498db',
     backgroundColor: '#fff',
   },
-  filterButtonActive: {
-    backgroundColor: '#3498db',
-  },
   filterButtonText: {
-    marginLeft: 8,
+    marginLeft: 6,
     fontSize: 14,
     fontWeight: '600',
-    color: '#3498db',
-  },
-  filterButtonTextActive: {
-    color: '#fff',
   },
 });
 
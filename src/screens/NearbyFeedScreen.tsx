@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import NearbyReportsFeed from '../components/NearbyReportsFeed';
+import { locateForFeed } from '../lib/nearbyFeed';
+import { LatLng } from '../lib/geo';
+
+// Community feed of approved reports around the user
+const NearbyFeedScreen: React.FC = () => {
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [locating, setLocating] = useState(true);
+
+  useEffect(() => {
+    locateForFeed()
+      .then(setOrigin)
+      .catch(error => {
+        console.error('Error getting location:', error);
+      })
+      .finally(() => setLocating(false));
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <NearbyReportsFeed origin={origin} locating={locating} />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+});
+
+export default NearbyFeedScreen;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  loadNotificationSettings,
+  NotificationCategory,
+  notificationCategories,
+  NotificationSettings,
+  requestNotificationPermission,
+  saveNotificationSettings,
+} from '../lib/reportNotifications';
+
+const NotificationSettingsScreen: React.FC = () => {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [permissionGranted, setPermissionGranted] = useState(true);
+
+  useEffect(() => {
+    loadNotificationSettings().then(setSettings);
+    requestNotificationPermission()
+      .then(setPermissionGranted)
+      .catch(error => {
+        console.error('Error requesting notification permission:', error);
+      });
+  }, []);
+
+  const toggle = (category: NotificationCategory, enabled: boolean) => {
+    if (!settings) {
+      return;
+    }
+    const next = { ...settings, [category]: enabled };
+    setSettings(next);
+    saveNotificationSettings(next);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {!permissionGranted && (
+          <TouchableOpacity style={styles.permissionNotice} onPress={() => Linking.openSettings()}>
+            <Ionicons name="notifications-off-outline" size={20} color="#e74c3c" />
+            <Text style={styles.permissionText}>
+              Notifications are turned off for this app. Tap to open the system settings.
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Updates on my reports</Text>
+          <Text style={styles.paragraph}>
+            The app checks your reports from time to time and lets you know when a moderator
+            reviews them. Tap a notification to open the report.
+          </Text>
+          {notificationCategories.map(category => (
+            <View key={category.id} style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>{category.name}</Text>
+                <Text style={styles.rowDescription}>{category.description}</Text>
+              </View>
+              <Switch
+                value={settings ? settings[category.id] : false}
+                onValueChange={(enabled) => toggle(category.id, enabled)}
+                disabled={!settings}
+                trackColor={{ false: '#bdc3c7', true: '#3498db' }}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  permissionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 15,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: '#e74c3c',
+  },
+  permissionText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 15,
+  },
+  paragraph: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#ecf0f1',
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+});
+
+export default NotificationSettingsScreen;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { getDevicePid, resetDevicePid } from '../lib/deviceIdentity';
+
+const PrivacyScreen: React.FC = () => {
+  const [devicePid, setDevicePid] = useState<string | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    getDevicePid()
+      .then(setDevicePid)
+      .catch(error => {
+        console.error('Error loading device ID:', error);
+      });
+  }, []);
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      const created = await resetDevicePid();
+      setDevicePid(created);
+      Alert.alert('Device ID Reset', 'A new anonymous device ID has been created.');
+    } catch (error) {
+      console.error('Error resetting device ID:', error);
+      Alert.alert('Error', `Failed to reset device ID: ${(error as Error).message}`);
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const confirmReset = () => {
+    Alert.alert(
+      'Reset Device ID',
+      'Reports you have already submitted will no longer appear under My Reports on this device, and you will stop receiving updates about them. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: handleReset },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>How you are identified</Text>
+          <Text style={styles.paragraph}>
+            You do not need an account to report issues. Instead, this app creates a random
+            anonymous ID the first time it runs and keeps it in secure storage on this device.
+          </Text>
+          <Text style={styles.paragraph}>
+            The ID is attached to your reports, subscriptions and flags so we can limit abuse
+            and show you your own reports. It contains no personal information.
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your device ID</Text>
+          <View style={styles.idContainer}>
+            <Ionicons name="finger-print" size={20} color="#3498db" />
+            <Text style={styles.idText} selectable>
+              {devicePid || 'Loading...'}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.resetButton, isResetting && styles.disabledButton]}
+            onPress={confirmReset}
+            disabled={isResetting}
+          >
+            <Ionicons name="refresh" size={20} color="white" />
+            <Text style={styles.resetButtonText}>
+              {isResetting ? 'Resetting...' : 'Reset Device ID'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 15,
+  },
+  paragraph: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    lineHeight: 20,
+    marginBottom: 10,
+  },
+  idContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    marginBottom: 15,
+  },
+  idText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 13,
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#e74c3c',
+    padding: 15,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#bdc3c7',
+  },
+  resetButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
+
+export default PrivacyScreen;
@@ -0,0 +1,271 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { NavigationProp, ParamListBase, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import ConditionTimeline from '../components/ConditionTimeline';
+import {
+  fetchProjectCondition,
+  getRecentGap,
+  getRecentObservations,
+  ProjectCondition,
+  RECENT_OBSERVATION_DAYS,
+} from '../lib/conditionComparison';
+import { getCondition } from '../lib/conditions';
+import { getProjectTypeIcon } from '../lib/projects';
+
+export interface ProjectConditionParams {
+  projectId: string;
+}
+
+const ProjectConditionScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const route = useRoute();
+  const { projectId } = route.params as ProjectConditionParams;
+  const [project, setProject] = useState<ProjectCondition | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchProjectCondition(projectId)
+        .then(setProject)
+        .catch(error => {
+          console.error('Error loading project condition:', error);
+        })
+        .finally(() => setLoading(false));
+    }, [projectId])
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  if (!project) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="construct-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.emptyTitle}>Project Not Available</Text>
+        <Text style={styles.emptyText}>Check your connection and try again.</Text>
+      </View>
+    );
+  }
+
+  const official = getCondition(project.conditionOfficial);
+  const recentCount = getRecentObservations(project).length;
+  const gap = getRecentGap(project);
+  // Newest first for the list
+  const observations = [...project.observations].reverse();
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Summary */}
+      <View style={styles.section}>
+        <View style={styles.titleRow}>
+          <View style={styles.typeIcon}>
+            <Ionicons name={getProjectTypeIcon(project.type)} size={20} color="#fff" />
+          </View>
+          <Text style={styles.title}>{project.name}</Text>
+        </View>
+        <Text style={styles.label}>Official (DPWH)</Text>
+        <View style={styles.officialRow}>
+          <View style={[styles.conditionChip, { backgroundColor: official.color }]}>
+            <Text style={styles.conditionText}>{official.name}</Text>
+          </View>
+          <Text style={styles.metaText}>
+            {project.lastInspectedAt
+              ? `Last inspected ${new Date(project.lastInspectedAt).toLocaleDateString()}`
+              : 'No inspection on record'}
+          </Text>
+        </View>
+        {gap !== null && Math.abs(gap) >= 1 ? (
+          <View style={styles.mismatchNotice}>
+            <Ionicons name="alert-circle" size={18} color="#e67e22" />
+            <Text style={styles.mismatchText}>
+              {recentCount} recent {recentCount === 1 ? 'observation rates' : 'observations rate'} this project{' '}
+              {gap > 0 ? 'worse' : 'better'} than the official rating.
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      {/* Observations over time */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Citizen Observations</Text>
+        {observations.length === 0 ? (
+          <Text style={styles.metaText}>No approved reports rate this project's condition yet.</Text>
+        ) : (
+          <>
+            <ConditionTimeline
+              observations={project.observations}
+              conditionOfficial={project.conditionOfficial}
+              lastInspectedAt={project.lastInspectedAt}
+            />
+            <Text style={styles.footnote}>
+              Recent means within {RECENT_OBSERVATION_DAYS} days and after the last inspection.
+            </Text>
+          </>
+        )}
+      </View>
+
+      {observations.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reports</Text>
+          {observations.map(observation => {
+            const condition = getCondition(observation.observedCondition);
+            return (
+              <TouchableOpacity
+                key={observation.reportId}
+                style={styles.observationRow}
+                onPress={() => navigation.navigate('ReportDetail', { reportId: observation.reportId })}
+              >
+                <View style={[styles.conditionDot, { backgroundColor: condition.color }]} />
+                <Text style={styles.observationText}>{condition.name}</Text>
+                <Text style={styles.observationDate}>{new Date(observation.observedAt).toLocaleDateString()}</Text>
+                <Ionicons name="chevron-forward" size={18} color="#bdc3c7" />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: '#f8f9fa',
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  typeIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#3498db',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  label: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    textTransform: 'uppercase',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  officialRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  conditionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 12,
+  },
+  conditionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  metaText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  mismatchNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#fdf2e9',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  mismatchText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#e67e22',
+    lineHeight: 20,
+  },
+  footnote: {
+    fontSize: 12,
+    color: '#bdc3c7',
+    marginTop: 10,
+  },
+  observationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ecf0f1',
+  },
+  conditionDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  observationText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2c3e50',
+  },
+  observationDate: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginRight: 6,
+  },
+});
+
+export default ProjectConditionScreen;
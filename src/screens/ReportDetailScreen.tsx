@@ -0,0 +1,716 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { NavigationProp, ParamListBase, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import MapView, { Marker } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import MediaGallery from '../components/MediaGallery';
+import GeoJSONLayer from '../components/GeoJSONLayer';
+import ExportSheet from '../components/ExportSheet';
+import FlagReportSheet from '../components/FlagReportSheet';
+import {
+  fetchReport,
+  fetchReportHistory,
+  ReportHistoryEntry,
+  ReportLockedError,
+  SubmittedReport,
+  withdrawMyReport,
+} from '../lib/myReports';
+import { getReportStatus } from '../lib/reportStatus';
+import { getIssueType } from '../lib/issueTypes';
+import { getSeverity } from '../lib/reports';
+import { getChecklistName, getCondition, hazardOptions, materialOptions } from '../lib/conditions';
+import { ExportFormat, exportReports } from '../lib/reportExport';
+import { FlagReason, flagReport, hasFlaggedReport } from '../lib/reportFlags';
+
+export interface ReportDetailParams {
+  reportId: string;
+}
+
+interface TimelineEvent {
+  key: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  title: string;
+  date: string;
+  note: string | null;
+}
+
+const historyTitles: Record<string, string> = {
+  update: 'Edited',
+  withdraw: 'Withdrawn',
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// Submission first, then audit_log entries. Without readable history the
+// report's own moderation columns still give the latest decision.
+const buildTimeline = (report: SubmittedReport, history: ReportHistoryEntry[]): TimelineEvent[] => {
+  const submitted = getReportStatus('pending');
+  const events: TimelineEvent[] = [{
+    key: 'submitted',
+    icon: 'paper-plane-outline',
+    color: submitted.color,
+    title: 'Submitted',
+    date: report.submittedAt,
+    note: null,
+  }];
+
+  history.forEach((entry, index) => {
+    const key = `history-${index}`;
+    if (entry.action === 'moderate' && entry.status) {
+      const status = getReportStatus(entry.status);
+      events.push({ key, icon: status.icon, color: status.color, title: status.name, date: entry.createdAt, note: entry.note });
+    } else {
+      const title = historyTitles[entry.action] || entry.action;
+      events.push({ key, icon: 'create-outline', color: '#3498db', title, date: entry.createdAt, note: entry.note });
+    }
+  });
+
+  if (history.length === 0 && report.moderatedAt) {
+    const status = getReportStatus(report.status);
+    events.push({
+      key: 'moderated',
+      icon: status.icon,
+      color: status.color,
+      title: status.name,
+      date: report.moderatedAt,
+      note: report.moderatorNote,
+    });
+  }
+
+  return events;
+};
+
+const ReportDetailScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const route = useRoute();
+  const { reportId } = route.params as ReportDetailParams;
+  const [report, setReport] = useState<SubmittedReport | null>(null);
+  const [history, setHistory] = useState<ReportHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [exportSheetVisible, setExportSheetVisible] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // null until known whether this device already flagged the report
+  const [flagged, setFlagged] = useState<boolean | null>(null);
+  const [flagSheetVisible, setFlagSheetVisible] = useState(false);
+  const [isFlagging, setIsFlagging] = useState(false);
+
+  // Reload on focus to pick up changes made on the edit screen
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [reportId])
+  );
+
+  const loadReport = async () => {
+    let loaded: SubmittedReport | null = null;
+    try {
+      loaded = await fetchReport(reportId);
+      setReport(loaded);
+    } catch (error) {
+      console.error('Error loading report:', error);
+    } finally {
+      setLoading(false);
+    }
+
+    // Other people's published reports can be flagged once per device
+    if (loaded && !loaded.isMine && loaded.status === 'approved') {
+      hasFlaggedReport(reportId)
+        .then(setFlagged)
+        .catch(error => {
+          console.warn('⚠️ Could not check report flags:', error);
+        });
+    }
+
+    // History is a nice-to-have; the screen is still useful without it
+    try {
+      setHistory(await fetchReportHistory(reportId));
+    } catch (error) {
+      console.warn('⚠️ Could not load report history:', error);
+    }
+  };
+
+  const withdraw = async () => {
+    setIsWithdrawing(true);
+    try {
+      await withdrawMyReport(reportId);
+      Alert.alert('Report Withdrawn', 'Your report has been removed.');
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error withdrawing report:', error);
+      if (error instanceof ReportLockedError) {
+        Alert.alert('Report Reviewed', error.message);
+        loadReport();
+      } else {
+        Alert.alert('Error', 'Failed to withdraw the report. Check your connection and try again.');
+      }
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!report) {
+      return;
+    }
+    setExportSheetVisible(false);
+    setIsExporting(true);
+    try {
+      await exportReports([report], format);
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Failed to export the report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFlag = async (reason: FlagReason, note: string) => {
+    setIsFlagging(true);
+    try {
+      await flagReport(reportId, reason, note);
+      setFlagged(true);
+      setFlagSheetVisible(false);
+      Alert.alert('Report Flagged', 'Thank you. A moderator will review this report.');
+    } catch (error) {
+      console.error('Error flagging report:', error);
+      Alert.alert('Error', 'Failed to flag the report. Check your connection and try again.');
+    } finally {
+      setIsFlagging(false);
+    }
+  };
+
+  const confirmWithdraw = () => {
+    Alert.alert(
+      'Withdraw Report',
+      'This removes the report and its photos and videos. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Withdraw', style: 'destructive', onPress: withdraw },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#3498db" />
+      </View>
+    );
+  }
+
+  if (!report) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="document-text-outline" size={64} color="#bdc3c7" />
+        <Text style={styles.emptyTitle}>Report Not Available</Text>
+        <Text style={styles.emptyText}>
+          It may have been removed, or it is still waiting for review.
+        </Text>
+      </View>
+    );
+  }
+
+  const status = getReportStatus(report.status);
+  const severity = getSeverity(report.severity);
+  const issueType = getIssueType(report.issueType);
+  const observed = getCondition(report.observedCondition);
+  const official = getCondition(report.projectConditionOfficial);
+  const hasLocation = report.latitude !== null && report.longitude !== null;
+
+  return (
+    <ScrollView style={styles.container}>
+      <MediaGallery media={report.media} />
+
+      {/* Summary */}
+      <View style={styles.section}>
+        <View style={styles.titleRow}>
+          <View style={[styles.typeIcon, { backgroundColor: issueType.color }]}>
+            <Ionicons name={issueType.icon} size={20} color="#fff" />
+          </View>
+          <Text style={styles.title}>{report.projectName || issueType.name}</Text>
+          <View style={[styles.badge, { backgroundColor: status.color }]}>
+            <Text style={styles.badgeText}>{status.name}</Text>
+          </View>
+        </View>
+        <View style={styles.metaRow}>
+          <View style={[styles.severityDot, { backgroundColor: severity.color }]} />
+          <Text style={styles.metaText}>{severity.name} severity · {issueType.name}</Text>
+        </View>
+        <Text style={styles.metaText}>
+          Observed {formatDate(report.observedAt || report.submittedAt)}
+        </Text>
+        {report.text ? <Text style={styles.description}>{report.text}</Text> : null}
+      </View>
+
+      {/* Owner actions; moderated reports are read-only */}
+      {report.isMine && (
+        report.status === 'pending' ? (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.editButton]}
+              onPress={() => navigation.navigate('EditReport', { reportId })}
+            >
+              <Ionicons name="create-outline" size={18} color="#fff" />
+              <Text style={styles.actionButtonText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.withdrawButton, isWithdrawing && styles.disabledButton]}
+              onPress={confirmWithdraw}
+              disabled={isWithdrawing}
+            >
+              <Ionicons name="trash-outline" size={18} color="#fff" />
+              <Text style={styles.actionButtonText}>{isWithdrawing ? 'Withdrawing...' : 'Withdraw'}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.readOnlyNotice}>
+            <Ionicons name="lock-closed-outline" size={16} color="#7f8c8d" />
+            <Text style={styles.readOnlyText}>This report has been reviewed and can no longer be changed.</Text>
+          </View>
+        )
+      )}
+
+      <TouchableOpacity
+        style={styles.exportButton}
+        onPress={() => setExportSheetVisible(true)}
+        disabled={isExporting}
+      >
+        <Ionicons name="share-outline" size={18} color="#3498db" />
+        <Text style={styles.exportButtonText}>{isExporting ? 'Exporting...' : 'Export'}</Text>
+      </TouchableOpacity>
+
+      {flagged === false && (
+        <TouchableOpacity style={styles.flagButton} onPress={() => setFlagSheetVisible(true)}>
+          <Ionicons name="flag-outline" size={18} color="#e74c3c" />
+          <Text style={styles.flagButtonText}>Flag Report</Text>
+        </TouchableOpacity>
+      )}
+      {flagged && (
+        <View style={styles.readOnlyNotice}>
+          <Ionicons name="flag" size={16} color="#7f8c8d" />
+          <Text style={styles.readOnlyText}>You flagged this report. A moderator will review it.</Text>
+        </View>
+      )}
+
+      {/* Location */}
+      {hasLocation ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Location</Text>
+          <View style={styles.mapContainer}>
+            <MapView
+              style={styles.map}
+              initialRegion={{
+                latitude: report.latitude!,
+                longitude: report.longitude!,
+                latitudeDelta: 0.006,
+                longitudeDelta: 0.006,
+              }}
+              scrollEnabled={false}
+              zoomEnabled={false}
+              rotateEnabled={false}
+              pitchEnabled={false}
+            >
+              {report.projectGeometry ? (
+                <GeoJSONLayer
+                  data={{
+                    type: 'FeatureCollection',
+                    features: [{ type: 'Feature', geometry: report.projectGeometry, properties: {} }],
+                  }}
+                  strokeColor="#3498db"
+                  strokeWidth={4}
+                />
+              ) : null}
+              <Marker
+                coordinate={{ latitude: report.latitude!, longitude: report.longitude! }}
+                pinColor={status.color}
+              />
+            </MapView>
+          </View>
+          {report.address ? <Text style={styles.address}>{report.address}</Text> : null}
+          <Text style={styles.coordinates}>
+            {report.latitude!.toFixed(5)}, {report.longitude!.toFixed(5)}
+          </Text>
+        </View>
+      ) : null}
+
+      {/* Condition */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Condition</Text>
+        <View style={styles.conditionRow}>
+          <View style={styles.conditionItem}>
+            <Text style={styles.conditionLabel}>Observed</Text>
+            <View style={[styles.conditionChip, { backgroundColor: observed.color }]}>
+              <Text style={styles.conditionText}>{observed.name}</Text>
+            </View>
+          </View>
+          {report.projectId ? (
+            <View style={styles.conditionItem}>
+              <Text style={styles.conditionLabel}>Official (DPWH)</Text>
+              <View style={[styles.conditionChip, { backgroundColor: official.color }]}>
+                <Text style={styles.conditionText}>{official.name}</Text>
+              </View>
+            </View>
+          ) : null}
+        </View>
+        {report.projectId && report.observedCondition !== 'unknown'
+          && report.projectConditionOfficial && report.projectConditionOfficial !== 'unknown'
+          && report.observedCondition !== report.projectConditionOfficial ? (
+            <Text style={styles.mismatchText}>
+              The observed condition differs from the official rating.
+            </Text>
+          ) : null}
+        {report.projectId ? (
+          <TouchableOpacity
+            style={styles.linkRow}
+            onPress={() => navigation.navigate('ProjectCondition', { projectId: report.projectId })}
+          >
+            <Ionicons name="analytics-outline" size={16} color="#3498db" />
+            <Text style={styles.linkText}>Compare with other reports over time</Text>
+          </TouchableOpacity>
+        ) : null}
+        {report.observedMaterials.length > 0 ? (
+          <Text style={styles.metaText}>
+            Materials: {report.observedMaterials.map(id => getChecklistName(materialOptions, id)).join(', ')}
+          </Text>
+        ) : null}
+      </View>
+
+      {/* Hazards */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Hazards</Text>
+        {report.observedHazards.length === 0 ? (
+          <Text style={styles.metaText}>No hazards reported</Text>
+        ) : (
+          report.observedHazards.map(id => (
+            <View key={id} style={styles.hazardRow}>
+              <Ionicons name="warning" size={16} color="#e74c3c" />
+              <Text style={styles.hazardText}>{getChecklistName(hazardOptions, id)}</Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Moderation timeline */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>History</Text>
+        {buildTimeline(report, history).map((event, index, events) => (
+          <View key={event.key} style={styles.timelineRow}>
+            <View style={styles.timelineMarker}>
+              <View style={[styles.timelineIcon, { backgroundColor: event.color }]}>
+                <Ionicons name={event.icon} size={14} color="#fff" />
+              </View>
+              {index < events.length - 1 ? <View style={styles.timelineLine} /> : null}
+            </View>
+            <View style={styles.timelineContent}>
+              <Text style={styles.timelineTitle}>{event.title}</Text>
+              <Text style={styles.timelineDate}>{formatDate(event.date)}</Text>
+              {event.note ? <Text style={styles.timelineNote}>{event.note}</Text> : null}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <ExportSheet
+        visible={exportSheetVisible}
+        count={1}
+        onSelect={handleExport}
+        onClose={() => setExportSheetVisible(false)}
+      />
+      <FlagReportSheet
+        visible={flagSheetVisible}
+        submitting={isFlagging}
+        onSubmit={handleFlag}
+        onClose={() => setFlagSheetVisible(false)}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    backgroundColor: '#f8f9fa',
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginBottom: 10,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  typeIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginRight: 10,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  severityDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  metaText: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 2,
+  },
+  description: {
+    fontSize: 16,
+    color: '#2c3e50',
+    lineHeight: 24,
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginHorizontal: 5,
+  },
+  editButton: {
+    backgroundColor: '#3498db',
+  },
+  withdrawButton: {
+    backgroundColor: '#e74c3c',
+  },
+  disabledButton: {
+    backgroundColor: '#bdc3c7',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 12,
+    marginHorizontal: 20,
+    marginBottom: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3498db',
+    backgroundColor: '#fff',
+  },
+  exportButtonText: {
+    color: '#3498db',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  flagButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 12,
+    marginHorizontal: 20,
+    marginBottom: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e74c3c',
+    backgroundColor: '#fff',
+  },
+  flagButtonText: {
+    color: '#e74c3c',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  readOnlyNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginBottom: 10,
+  },
+  readOnlyText: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  mapContainer: {
+    height: 200,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  address: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginTop: 8,
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#bdc3c7',
+    marginTop: 6,
+  },
+  conditionRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  conditionItem: {
+    marginRight: 24,
+  },
+  conditionLabel: {
+    fontSize: 12,
+    color: '#7f8c8d',
+    textTransform: 'uppercase',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  conditionChip: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  conditionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  mismatchText: {
+    fontSize: 13,
+    color: '#e67e22',
+    marginBottom: 4,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+    marginLeft: 6,
+  },
+  hazardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  hazardText: {
+    fontSize: 15,
+    color: '#2c3e50',
+    marginLeft: 8,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  timelineIcon: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e1e8ed',
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: '#bdc3c7',
+    marginTop: 2,
+  },
+  timelineNote: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+});
+
+export default ReportDetailScreen;
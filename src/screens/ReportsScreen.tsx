@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,86 +8,104 @@ import {
   Image,
   RefreshControl,
   Alert,
+  ActivityIndicator,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { NavigationProp, ParamListBase, useFocusEffect, useNavigation } from '@react-navigation/native';
+import * as Location from 'expo-location';
 import { Ionicons } from '@expo/vector-icons';
+import {
+  fetchMyReportCounts,
+  fetchMyReportProjects,
+  fetchMyReports,
+  fetchReportsForExport,
+  ReportCounts,
+  ReportQuery,
+  REPORTS_PAGE_SIZE,
+  SubmittedReport,
+} from '../lib/myReports';
+import { getReportStatus, reportStatuses } from '../lib/reportStatus';
+import { getIssueType } from '../lib/issueTypes';
+import {
+  countActiveFilters,
+  loadReportFilters,
+  ReportFilters,
+  ReportSort,
+  reportSorts,
+  saveReportFilters,
+} from '../lib/reportFilters';
+import { distanceInMeters, formatDistance, LatLng } from '../lib/geo';
+import { ExportFormat, exportReports } from '../lib/reportExport';
+import ReportFilterSheet from '../components/ReportFilterSheet';
+import ExportSheet from '../components/ExportSheet';
 
-interface Report {
-  id: string;
-  title: string;
-  description: string;
-  type: string;
-  status: 'pending' | 'in_progress' | 'resolved' | 'rejected';
-  imageUrl?: string;
-  createdAt: string;
-  updatedAt: string;
-  location: {
-    latitude: number;
-    longitude: number;
-    address?: string;
-  };
-}
+const emptyCounts: ReportCounts = { pending: 0, approved: 0, rejected: 0 };
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
 
 const ReportsScreen: React.FC = () => {
-  const [reports, setReports] = useState<Report[]>([]);
+  const navigation = useNavigation<NavigationProp<ParamListBase>>();
+  const [reports, setReports] = useState<SubmittedReport[]>([]);
+  const [counts, setCounts] = useState<ReportCounts>(emptyCounts);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // null until the saved filters have been read
+  const [filters, setFilters] = useState<ReportFilters | null>(null);
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const [projects, setProjects] = useState<{ projectId: string; name: string }[]>([]);
+  // Reports picked for export; null when not in selection mode
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [exportSheetVisible, setExportSheetVisible] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // Responses to superseded queries are dropped
+  const latestRequest = useRef(0);
 
   useEffect(() => {
-    loadReports();
+    loadReportFilters().then(saved => {
+      setFilters(saved);
+      if (saved.sort === 'distance') {
+        locateForDistanceSort(saved);
+      }
+    });
   }, []);
 
-  const loadReports = async () => {
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const query: ReportQuery | null = filters ? { search: debouncedSearch, filters, origin } : null;
+
+  // Runs on focus, so edits and withdrawals made on the detail screen show
+  // up, and again whenever the query changes
+  useFocusEffect(
+    useCallback(() => {
+      if (query) {
+        loadReports(query);
+      }
+    }, [filters, debouncedSearch, origin])
+  );
+
+  const loadReports = async (current: ReportQuery) => {
+    const request = ++latestRequest.current;
     try {
-      // Simulate API call with mock data
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const mockReports: Report[] = [
-        {
-          id: '1',
-          title: 'Pothole on Main Street',
-          description: 'Large pothole causing damage to vehicles. Located near the intersection with Oak Avenue.',
-          type: 'pothole',
-          status: 'in_progress',
-          createdAt: '2024-01-15T10:30:00Z',
-          updatedAt: '2024-01-16T14:20:00Z',
-          location: {
-            latitude: 37.78825,
-            longitude: -122.4324,
-            address: 'Main Street & Oak Avenue',
-          },
-        },
-        {
-          id: '2',
-          title: 'Broken Streetlight',
-          description: 'Streetlight has been out for several days, creating safety concerns.',
-          type: 'streetlight',
-          status: 'pending',
-          createdAt: '2024-01-14T08:15:00Z',
-          updatedAt: '2024-01-14T08:15:00Z',
-          location: {
-            latitude: 37.78925,
-            longitude: -122.4334,
-            address: 'Pine Street',
-          },
-        },
-        {
-          id: '3',
-          title: 'Sidewalk Crack',
-          description: 'Large crack in sidewalk creating tripping hazard.',
-          type: 'sidewalk',
-          status: 'resolved',
-          createdAt: '2024-01-10T16:45:00Z',
-          updatedAt: '2024-01-13T11:30:00Z',
-          location: {
-            latitude: 37.78725,
-            longitude: -122.4314,
-            address: 'Elm Street',
-          },
-        },
-      ];
-      
-      setReports(mockReports);
+      const [firstPage, totals] = await Promise.all([fetchMyReports(0, current), fetchMyReportCounts(current)]);
+      if (request !== latestRequest.current) {
+        return;
+      }
+      setReports(firstPage);
+      setCounts(totals);
+      setPage(0);
+      setHasMore(firstPage.length === REPORTS_PAGE_SIZE);
     } catch (error) {
       console.error('Error loading reports:', error);
       Alert.alert('Error', 'Failed to load reports');
@@ -97,163 +115,356 @@ const ReportsScreen: React.FC = () => {
     }
   };
 
+  const loadMore = async () => {
+    if (!query || loading || refreshing || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    const request = latestRequest.current;
+    try {
+      const nextPage = await fetchMyReports(page + 1, query);
+      if (request !== latestRequest.current) {
+        return;
+      }
+      // A report submitted since the last refresh shifts the pages by one
+      setReports(current => [
+        ...current,
+        ...nextPage.filter(report => !current.some(existing => existing.reportId === report.reportId)),
+      ]);
+      setPage(page + 1);
+      setHasMore(nextPage.length === REPORTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more reports:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const onRefresh = () => {
-    setRefreshing(true);
-    loadReports();
+    if (query) {
+      setRefreshing(true);
+      loadReports(query);
+    }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return '#f39c12';
-      case 'in_progress':
-        return '#3498db';
-      case 'resolved':
-        return '#2ecc71';
-      case 'rejected':
-        return '#e74c3c';
-      default:
-        return '#95a5a6';
+  const applyFilters = (next: ReportFilters) => {
+    setFilters(next);
+    saveReportFilters(next);
+    if (next.sort === 'distance' && !origin) {
+      locateForDistanceSort(next);
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'Pending Review';
-      case 'in_progress':
-        return 'In Progress';
-      case 'resolved':
-        return 'Resolved';
-      case 'rejected':
-        return 'Rejected';
-      default:
-        return 'Unknown';
+  // Sorting by distance needs a fix; without permission fall back to newest
+  const locateForDistanceSort = async (current: ReportFilters) => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Denied', 'Location permission is required to sort reports by distance.');
+        applyFilters({ ...current, sort: 'newest' });
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({});
+      setOrigin({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+    } catch (error) {
+      console.error('Error getting location:', error);
+      Alert.alert('Error', 'Unable to get your current location');
+      applyFilters({ ...current, sort: 'newest' });
     }
   };
 
-  const getTypeIcon = (type: string): keyof typeof Ionicons.glyphMap => {
-    switch (type) {
-      case 'pothole':
-        return 'car';
-      case 'streetlight':
-        return 'bulb';
-      case 'traffic':
-        return 'traffic-cone';
-      case 'sidewalk':
-        return 'walk';
-      case 'drainage':
-        return 'water';
-      default:
-        return 'help-circle';
+  const selectSort = (sort: ReportSort) => {
+    if (filters) {
+      applyFilters({ ...filters, sort });
     }
   };
 
+  const openFilters = () => {
+    setFilterSheetVisible(true);
+    fetchMyReportProjects()
+      .then(setProjects)
+      .catch(error => {
+        console.error('Error loading projects:', error);
+      });
+  };
+
+  const activeFilterCount = filters ? countActiveFilters(filters) : 0;
+  const isFiltered = activeFilterCount > 0 || debouncedSearch.trim() !== '';
+
+  const totalCount = reportStatuses.reduce((sum, status) => sum + counts[status.id], 0);
+
+  const getReportTitle = (report: SubmittedReport) =>
+    report.projectName || getIssueType(report.issueType).name;
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const handleReportPress = (report: Report) => {
-    Alert.alert(
-      report.title,
-      `${report.description}\n\nStatus: ${getStatusText(report.status)}\nSubmitted: ${formatDate(report.createdAt)}\nLast Updated: ${formatDate(report.updatedAt)}`,
-      [{ text: 'OK' }]
+  const handleReportPress = (report: SubmittedReport) => {
+    if (selectedIds) {
+      toggleSelected(report.reportId);
+    } else {
+      navigation.navigate('ReportDetail', { reportId: report.reportId });
+    }
+  };
+
+  const toggleSelected = (reportId: string) => {
+    const current = selectedIds || [];
+    setSelectedIds(
+      current.includes(reportId) ? current.filter(id => id !== reportId) : [...current, reportId]
     );
   };
 
-  const renderReport = ({ item }: { item: Report }) => (
-    <TouchableOpacity
-      style={styles.reportCard}
-      onPress={() => handleReportPress(item)}
-    >
-      <View style={styles.reportHeader}>
-        <View style={styles.reportTitleRow}>
-          <View style={styles.typeIcon}>
-            <Ionicons 
-              name={getTypeIcon(item.type)} 
-              size={20} 
-              color="#fff" 
-            />
+  const selectAll = () => {
+    const allSelected = !!selectedIds && reports.every(report => selectedIds.includes(report.reportId));
+    setSelectedIds(allSelected ? [] : reports.map(report => report.reportId));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!selectedIds || selectedIds.length === 0) {
+      return;
+    }
+    setExportSheetVisible(false);
+    setIsExporting(true);
+    try {
+      await exportReports(await fetchReportsForExport(selectedIds), format);
+      setSelectedIds(null);
+    } catch (error) {
+      console.error('Error exporting reports:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Failed to export reports');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderReport = ({ item }: { item: SubmittedReport }) => {
+    const status = getReportStatus(item.status);
+    const issueType = getIssueType(item.issueType);
+    const cover = item.media[0];
+    const coverUrl = cover ? cover.thumbnailUrl || (cover.kind === 'photo' ? cover.url : null) : null;
+    const selected = !!selectedIds && selectedIds.includes(item.reportId);
+
+    return (
+      <TouchableOpacity
+        style={[styles.reportCard, selected && styles.reportCardSelected]}
+        onPress={() => handleReportPress(item)}
+        onLongPress={() => toggleSelected(item.reportId)}
+      >
+        <View style={styles.reportHeader}>
+          <View style={styles.reportTitleRow}>
+            {selectedIds && (
+              <Ionicons
+                name={selected ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={selected ? '#3498db' : '#bdc3c7'}
+                style={styles.checkbox}
+              />
+            )}
+            <View style={[styles.typeIcon, { backgroundColor: issueType.color }]}>
+              <Ionicons
+                name={issueType.icon}
+                size={20}
+                color="#fff"
+              />
+            </View>
+            <Text style={styles.reportTitle} numberOfLines={1}>
+              {getReportTitle(item)}
+            </Text>
           </View>
-          <Text style={styles.reportTitle} numberOfLines={1}>
-            {item.title}
+          <View style={[styles.statusBadge, { backgroundColor: status.color }]}>
+            <Text style={styles.statusText}>{status.name}</Text>
+          </View>
+        </View>
+
+        <View style={styles.reportBody}>
+          {coverUrl ? <Image source={{ uri: coverUrl }} style={styles.cover} /> : null}
+          <Text style={styles.reportDescription} numberOfLines={coverUrl ? 3 : 2}>
+            {item.text || 'No description'}
           </Text>
         </View>
-        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
-          <Text style={styles.statusText}>{getStatusText(item.status)}</Text>
+
+        {item.moderatorNote ? (
+          <View style={styles.moderatorNote}>
+            <Ionicons name="chatbox-ellipses-outline" size={14} color="#7f8c8d" />
+            <Text style={styles.moderatorNoteText} numberOfLines={2}>
+              {item.moderatorNote}
+            </Text>
+          </View>
+        ) : null}
+
+        <View style={styles.reportFooter}>
+          <View style={styles.locationInfo}>
+            <Ionicons name="location-outline" size={16} color="#7f8c8d" />
+            <Text style={styles.locationText} numberOfLines={1}>
+              {item.latitude === null || item.longitude === null
+                ? 'Location not available'
+                : origin && filters?.sort === 'distance'
+                  ? `${formatDistance(distanceInMeters(origin.latitude, origin.longitude, item.latitude, item.longitude))} away`
+                  : item.address || `${item.latitude.toFixed(4)}, ${item.longitude.toFixed(4)}`}
+            </Text>
+          </View>
+          <Text style={styles.dateText}>{formatDate(item.submittedAt)}</Text>
         </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    loading ? (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color="#3498db" />
       </View>
-      
-      <Text style={styles.reportDescription} numberOfLines={2}>
-        {item.description}
-      </Text>
-      
-      <View style={styles.reportFooter}>
-        <View style={styles.locationInfo}>
-          <Ionicons name="location-outline" size={16} color="#7f8c8d" />
-          <Text style={styles.locationText} numberOfLines={1}>
-            {item.location.address || `${item.location.latitude.toFixed(4)}, ${item.location.longitude.toFixed(4)}`}
-          </Text>
-        </View>
-        <Text style={styles.dateText}>{formatDate(item.createdAt)}</Text>
+    ) : isFiltered ? (
+      <View style={styles.emptyState}>
+        <Ionicons name="search-outline" size={80} color="#bdc3c7" />
+        <Text style={styles.emptyStateTitle}>No Matching Reports</Text>
+        <Text style={styles.emptyStateText}>
+          Try a different search or clear some filters.
+        </Text>
       </View>
-    </TouchableOpacity>
+    ) : (
+      <View style={styles.emptyState}>
+        <Ionicons name="document-text-outline" size={80} color="#bdc3c7" />
+        <Text style={styles.emptyStateTitle}>No Reports Yet</Text>
+        <Text style={styles.emptyStateText}>
+          Your submitted reports will appear here. Start by reporting an issue using the camera tab.
+        </Text>
+      </View>
+    )
   );
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Ionicons name="document-text-outline" size={80} color="#bdc3c7" />
-      <Text style={styles.emptyStateTitle}>No Reports Yet</Text>
-      <Text style={styles.emptyStateText}>
-        Your submitted reports will appear here. Start by reporting an issue using the camera tab.
-      </Text>
-    </View>
+  const renderFooter = () => (
+    loadingMore ? <ActivityIndicator style={styles.footerLoader} color="#3498db" /> : null
   );
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>My Reports</Text>
-        <Text style={styles.subtitle}>Track your submitted issues</Text>
+      {selectedIds ? (
+        <View style={[styles.header, styles.selectionBar]}>
+          <TouchableOpacity onPress={() => setSelectedIds(null)}>
+            <Ionicons name="close" size={26} color="#2c3e50" />
+          </TouchableOpacity>
+          <Text style={styles.selectionTitle}>{selectedIds.length} selected</Text>
+          <TouchableOpacity onPress={selectAll}>
+            <Text style={styles.selectionAction}>All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => setExportSheetVisible(true)}
+            disabled={selectedIds.length === 0 || isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#3498db" />
+            ) : (
+              <Ionicons name="share-outline" size={24} color={selectedIds.length === 0 ? '#bdc3c7' : '#3498db'} />
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>My Reports</Text>
+            {reports.length > 0 && (
+              <TouchableOpacity onPress={() => setSelectedIds([])}>
+                <Text style={styles.selectionAction}>Select</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.subtitle}>Track your submitted issues</Text>
+        </View>
+      )}
+
+      {/* Search, sort and filters */}
+      <View style={styles.toolbar}>
+        <View style={styles.searchRow}>
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color="#7f8c8d" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search title or description"
+              value={search}
+              onChangeText={setSearch}
+              returnKeyType="search"
+              clearButtonMode="while-editing"
+            />
+          </View>
+          <TouchableOpacity style={styles.filterButton} onPress={openFilters}>
+            <Ionicons name="options-outline" size={22} color="#3498db" />
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.sortRow}>
+          {reportSorts.map(option => {
+            const active = filters?.sort === option.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.sortChip, active && styles.sortChipActive]}
+                onPress={() => selectSort(option.id)}
+              >
+                <Ionicons name={option.icon} size={14} color={active ? '#fff' : '#7f8c8d'} />
+                <Text style={[styles.sortChipText, active && styles.sortChipTextActive]}>{option.name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
       </View>
 
-      {/* Stats */}
+      {/* Stats for the current search and filters */}
       <View style={styles.statsContainer}>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{reports.length}</Text>
+          <Text style={styles.statNumber}>{totalCount}</Text>
           <Text style={styles.statLabel}>Total</Text>
         </View>
-        <View style={styles.statItem}>
-          <Text style={[styles.statNumber, { color: '#f39c12' }]}>
-            {reports.filter(r => r.status === 'pending').length}
-          </Text>
-          <Text style={styles.statLabel}>Pending</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={[styles.statNumber, { color: '#3498db' }]}>
-            {reports.filter(r => r.status === 'in_progress').length}
-          </Text>
-          <Text style={styles.statLabel}>In Progress</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={[styles.statNumber, { color: '#2ecc71' }]}>
-            {reports.filter(r => r.status === 'resolved').length}
-          </Text>
-          <Text style={styles.statLabel}>Resolved</Text>
-        </View>
+        {reportStatuses.map(status => (
+          <View key={status.id} style={styles.statItem}>
+            <Text style={[styles.statNumber, { color: status.color }]}>
+              {counts[status.id]}
+            </Text>
+            <Text style={styles.statLabel}>{status.name}</Text>
+          </View>
+        ))}
       </View>
 
       <FlatList
         data={reports}
-        keyExtractor={(item) => item.id}
+        keyExtractor={(item) => item.reportId}
         renderItem={renderReport}
         ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderFooter}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
         contentContainerStyle={reports.length === 0 ? styles.emptyContainer : undefined}
         showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      />
+
+      {filters && (
+        <ReportFilterSheet
+          visible={filterSheetVisible}
+          filters={filters}
+          projects={projects}
+          onApply={(next) => {
+            setFilterSheetVisible(false);
+            applyFilters(next);
+          }}
+          onClose={() => setFilterSheetVisible(false)}
+        />
+      )}
+
+      <ExportSheet
+        visible={exportSheetVisible}
+        count={selectedIds?.length ?? 0}
+        onSelect={handleExport}
+        onClose={() => setExportSheetVisible(false)}
       />
     </SafeAreaView>
   );
@@ -270,16 +481,115 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e1e8ed',
   },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
     color: '#2c3e50',
     marginBottom: 5,
   },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  selectionTitle: {
+    flex: 1,
+    marginLeft: 15,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  selectionAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  exportButton: {
+    marginLeft: 20,
+    padding: 4,
+  },
   subtitle: {
     fontSize: 16,
     color: '#7f8c8d',
   },
+  toolbar: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e1e8ed',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#2c3e50',
+  },
+  filterButton: {
+    marginLeft: 12,
+    padding: 8,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#e74c3c',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 3,
+  },
+  filterBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  sortRow: {
+    marginTop: 10,
+  },
+  sortChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e1e8ed',
+  },
+  sortChipActive: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  sortChipText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#7f8c8d',
+  },
+  sortChipTextActive: {
+    color: '#fff',
+  },
   statsContainer: {
     flexDirection: 'row',
     backgroundColor: '#fff',
@@ -317,6 +627,13 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  reportCardSelected: {
+    borderWidth: 2,
+    borderColor: '#3498db',
+  },
+  checkbox: {
+    marginRight: 8,
+  },
   reportHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -354,12 +671,37 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  reportBody: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  cover: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#ecf0f1',
+  },
   reportDescription: {
     fontSize: 14,
     color: '#7f8c8d',
     lineHeight: 20,
+    flex: 1,
+  },
+  moderatorNote: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 8,
     marginBottom: 12,
   },
+  moderatorNoteText: {
+    fontSize: 13,
+    color: '#2c3e50',
+    marginLeft: 6,
+    flex: 1,
+  },
   reportFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -380,6 +722,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#bdc3c7',
   },
+  footerLoader: {
+    marginVertical: 20,
+  },
   emptyContainer: {
     flex: 1,
   },